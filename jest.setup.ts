@@ -0,0 +1,11 @@
+import mongoose from "mongoose";
+import { logger } from "./src/utils/logger";
+
+// No database in unit tests: anything that reaches a model without a mock
+// fails straight away instead of waiting for a connection
+mongoose.set("bufferCommands", false);
+
+// Never call a real model
+process.env.LLM_PROVIDER = "stub";
+
+logger.silent = true;
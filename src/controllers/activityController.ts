@@ -1,7 +1,48 @@
 import { Request, Response, NextFunction } from "express";
-import { Activity, IActivity } from "../models/Activity";
+import { Types } from "mongoose";
+import { Activity } from "../models/Activity";
+import { ActivityType, DEFAULT_ACTIVITY_TYPES } from "../models/ActivityType";
+import { requireUserId } from "../middleware/auth";
+import { AppError } from "../middleware/errorHandler";
+import { validatedQuery } from "../middleware/validate";
 import { logger } from "../utils/logger";
 import { sendActivityCompletionEvent } from "../utils/inngestEvents";
+import { dateRangeFilter } from "../utils/queryParams";
+import {
+  ActivityStatsQuery,
+  CreateActivityTypeBody,
+  ListActivitiesQuery,
+  LogActivityBody,
+  UpdateActivityBody,
+} from "../validation/activity";
+
+// Built-in types plus the ones this user has defined
+const getAllowedTypes = async (userId: Types.ObjectId) => {
+  const custom = await ActivityType.find({ userId }).select("name");
+  return [...DEFAULT_ACTIVITY_TYPES, ...custom.map((t) => t.name)];
+};
+
+const assertValidType = async (userId: Types.ObjectId, type: unknown) => {
+  if (typeof type !== "string" || !type.trim()) {
+    throw new AppError("Activity type is required", 400);
+  }
+  const allowed = await getAllowedTypes(userId);
+  if (!allowed.includes(type.trim().toLowerCase())) {
+    throw new AppError(`Unknown activity type: ${type}`, 400);
+  }
+};
+
+// Look up an activity by id, scoped to the current user
+const findOwnedActivity = async (userId: Types.ObjectId, id: string) => {
+  if (!Types.ObjectId.isValid(id)) {
+    throw new AppError("Activity not found", 404, "ACTIVITY_NOT_FOUND");
+  }
+  const activity = await Activity.findOne({ _id: id, userId });
+  if (!activity) {
+    throw new AppError("Activity not found", 404, "ACTIVITY_NOT_FOUND");
+  }
+  return activity;
+};
 
 // Log a new activity
 export const logActivity = async (
@@ -11,12 +52,10 @@ export const logActivity = async (
 ) => {
   try {
     const { type, name, description, duration, difficulty, feedback } =
-      req.body;
-    const userId = req.user?._id;
+      req.body as LogActivityBody;
+    const userId = requireUserId(req);
 
-    if (!userId) {
-      return res.status(401).json({ message: "User not authenticated" });
-    }
+    await assertValidType(userId, type);
 
     const activity = new Activity({
       userId,
@@ -51,4 +90,289 @@ export const logActivity = async (
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+
+// List activities with optional ?type, ?from, ?to, ?page, ?limit
+export const getActivities = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    const query = validatedQuery<ListActivitiesQuery>(req);
+    const { page, limit } = query;
+    const filter: Record<string, any> = { userId };
+    const range = dateRangeFilter(query);
+    if (range) filter.timestamp = range;
+    if (query.type) filter.type = query.type;
+
+    const [activities, total] = await Promise.all([
+      Activity.find(filter)
+        .sort({ timestamp: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Activity.countDocuments(filter),
+    ]);
+
+    res.json({
+      success: true,
+      data: activities,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get a single activity
+export const getActivity = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    const activity = await findOwnedActivity(userId, req.params.id);
+    res.json({ success: true, data: activity });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Update an activity
+export const updateActivity = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    const activity = await findOwnedActivity(userId, req.params.id);
+
+    const changes = req.body as UpdateActivityBody;
+    if (changes.type !== undefined) {
+      await assertValidType(userId, changes.type);
+    }
+
+    for (const [field, value] of Object.entries(changes)) {
+      if (value !== undefined) {
+        activity.set(field, value);
+      }
+    }
+
+    await activity.save();
+    logger.info(`Activity ${activity._id} updated for user ${userId}`);
+
+    res.json({ success: true, data: activity });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Delete an activity
+export const deleteActivity = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    const activity = await findOwnedActivity(userId, req.params.id);
+    await activity.deleteOne();
+    logger.info(`Activity ${activity._id} deleted for user ${userId}`);
+
+    res.json({ success: true, message: "Activity deleted successfully" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+interface ActivityBucket {
+  start: Date;
+  totalMinutes: number;
+  byType: Record<string, number>;
+}
+
+// Per-type totals plus minutes over time (?period=day|week, ?from, ?to, ?tz)
+export const getActivityStats = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    const query = validatedQuery<ActivityStatsQuery>(req);
+    const { period, tz: timezone } = query;
+
+    const match: Record<string, any> = { userId };
+    const range = dateRangeFilter(query);
+    if (range) match.timestamp = range;
+
+    const [byType, overTime] = await Promise.all([
+      Activity.aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: "$type",
+            count: { $sum: 1 },
+            totalMinutes: { $sum: { $ifNull: ["$duration", 0] } },
+            averageDifficulty: { $avg: "$difficulty" },
+          },
+        },
+        { $sort: { totalMinutes: -1 } },
+      ]),
+      Activity.aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: {
+              start: {
+                $dateTrunc: {
+                  date: "$timestamp",
+                  unit: period,
+                  timezone,
+                  ...(period === "week" ? { startOfWeek: "monday" } : {}),
+                },
+              },
+              type: "$type",
+            },
+            count: { $sum: 1 },
+            minutes: { $sum: { $ifNull: ["$duration", 0] } },
+          },
+        },
+        { $sort: { "_id.start": 1 } },
+      ]),
+    ]);
+
+    // Fold the per-type rows into one bucket per period
+    const buckets = new Map<number, ActivityBucket>();
+    for (const row of overTime) {
+      const key = new Date(row._id.start).getTime();
+      const bucket: ActivityBucket = buckets.get(key) || {
+        start: row._id.start,
+        totalMinutes: 0,
+        byType: {},
+      };
+      bucket.totalMinutes += row.minutes;
+      bucket.byType[row._id.type] = row.minutes;
+      buckets.set(key, bucket);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        period,
+        timezone,
+        totals: byType.map((row) => ({
+          type: row._id,
+          count: row.count,
+          totalMinutes: row.totalMinutes,
+          averageDifficulty:
+            row.averageDifficulty === null
+              ? null
+              : Math.round(row.averageDifficulty * 100) / 100,
+        })),
+        overTime: [...buckets.values()],
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List built-in and custom activity types
+export const getActivityTypes = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    const custom = await ActivityType.find({ userId }).sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        defaults: DEFAULT_ACTIVITY_TYPES,
+        custom,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Define a custom activity type
+export const createActivityType = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    const { label, description, name: requestedName } = req.body as CreateActivityTypeBody;
+    const name = (requestedName || label)
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "");
+    if (!name) {
+      throw new AppError("Name must contain letters or numbers", 400);
+    }
+
+    const allowed = await getAllowedTypes(userId);
+    if (allowed.includes(name)) {
+      throw new AppError(`Activity type already exists: ${name}`, 409);
+    }
+
+    const activityType = await ActivityType.create({
+      userId,
+      name,
+      label,
+      description,
+    });
+    logger.info(`Custom activity type ${name} created for user ${userId}`);
+
+    res.status(201).json({ success: true, data: activityType });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Remove a custom activity type. Activities already logged keep their type.
+export const deleteActivityType = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      throw new AppError("Activity type not found", 404, "ACTIVITY_TYPE_NOT_FOUND");
+    }
+    const activityType = await ActivityType.findOneAndDelete({
+      _id: req.params.id,
+      userId,
+    });
+    if (!activityType) {
+      throw new AppError("Activity type not found", 404, "ACTIVITY_TYPE_NOT_FOUND");
+    }
+
+    res.json({ success: true, message: "Activity type deleted successfully" });
+  } catch (error) {
+    next(error);
+  }
+};
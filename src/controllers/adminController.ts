@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from "express";
+import { validatedQuery } from "../middleware/validate";
+import { getStructuredOutputMetrics } from "../llm";
+import { getLLMUsageReport } from "../utils/llmAccounting";
+import { LLMUsageReportQuery } from "../validation/admin";
+
+const DEFAULT_REPORT_DAYS = 30;
+
+// Model calls, tokens, cost and outcomes, grouped by day/user/task/model
+export const getLLMUsage = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = validatedQuery<LLMUsageReportQuery>(req);
+    const { userId, task, model } = query;
+    const to = query.to || new Date();
+    const from =
+      query.from || new Date(to.getTime() - DEFAULT_REPORT_DAYS * 24 * 60 * 60 * 1000);
+    const groups = query.groupBy || ["day"];
+
+    const report = await getLLMUsageReport({
+      from,
+      to,
+      groupBy: groups,
+      userId,
+      task,
+      model,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        from,
+        to,
+        groupBy: groups,
+        ...report,
+        // Since this process started, not limited to the range above
+        structuredOutput: getStructuredOutputMetrics(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
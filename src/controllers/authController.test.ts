@@ -0,0 +1,93 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { Session } from "../models/Session";
+import { AppError } from "../middleware/errorHandler";
+import { hashToken, verifyAccessToken } from "../utils/tokens";
+import { refresh } from "./authController";
+
+const buildSession = (refreshToken: string, expiresAt = new Date(Date.now() + 60_000)) => {
+  const session = new Session({
+    userId: new Types.ObjectId(),
+    refreshTokenHash: hashToken(refreshToken),
+    expiresAt,
+  });
+  jest.spyOn(session, "save").mockResolvedValue(session);
+  jest.spyOn(session, "deleteOne").mockResolvedValue(session);
+  return session;
+};
+
+const callRefresh = async (refreshToken: string) => {
+  const res = { json: jest.fn() };
+  const next = jest.fn();
+  await refresh(
+    { body: { refreshToken } } as Request,
+    res as unknown as Response,
+    next
+  );
+  return { body: res.json.mock.calls[0]?.[0], error: next.mock.calls[0]?.[0] };
+};
+
+describe("refresh", () => {
+  it("rotates the refresh token and remembers the old one", async () => {
+    const session = buildSession("old-token");
+    const findOne = jest.spyOn(Session, "findOne").mockResolvedValue(session);
+
+    const { body, error } = await callRefresh("old-token");
+
+    expect(error).toBeUndefined();
+    expect(findOne).toHaveBeenCalledWith({ refreshTokenHash: hashToken("old-token") });
+    expect(body.refreshToken).not.toBe("old-token");
+    expect(session.refreshTokenHash).toBe(hashToken(body.refreshToken));
+    expect(session.previousRefreshTokenHash).toBe(hashToken("old-token"));
+    expect(session.save).toHaveBeenCalled();
+    expect(verifyAccessToken(body.token)).toMatchObject({
+      userId: String(session.userId),
+      sessionId: String(session._id),
+    });
+  });
+
+  it("revokes the session when a rotated-out token is replayed", async () => {
+    jest.spyOn(Session, "findOne").mockResolvedValue(null);
+    const findOneAndDelete = jest
+      .spyOn(Session, "findOneAndDelete")
+      .mockResolvedValue(buildSession("new-token"));
+
+    const { body, error } = await callRefresh("old-token");
+
+    expect(findOneAndDelete).toHaveBeenCalledWith({
+      previousRefreshTokenHash: hashToken("old-token"),
+    });
+    expect(body).toBeUndefined();
+    expect(error).toBeInstanceOf(AppError);
+    expect(error).toMatchObject({ statusCode: 401, code: "INVALID_TOKEN" });
+  });
+
+  it("rejects an unknown token", async () => {
+    jest.spyOn(Session, "findOne").mockResolvedValue(null);
+    jest.spyOn(Session, "findOneAndDelete").mockResolvedValue(null);
+
+    const { error } = await callRefresh("made-up");
+
+    expect(error).toMatchObject({ statusCode: 401, code: "INVALID_TOKEN" });
+  });
+
+  it("ends an expired session instead of rotating it", async () => {
+    const session = buildSession("old-token", new Date(Date.now() - 1000));
+    jest.spyOn(Session, "findOne").mockResolvedValue(session);
+
+    const { error } = await callRefresh("old-token");
+
+    expect(error).toMatchObject({ statusCode: 401, code: "TOKEN_EXPIRED" });
+    expect(session.deleteOne).toHaveBeenCalled();
+    expect(session.save).not.toHaveBeenCalled();
+  });
+
+  it("passes database errors on instead of answering 401", async () => {
+    const failure = new Error("connection lost");
+    jest.spyOn(Session, "findOne").mockRejectedValue(failure);
+
+    const { error } = await callRefresh("old-token");
+
+    expect(error).toBe(failure);
+  });
+});
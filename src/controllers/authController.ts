@@ -1,23 +1,51 @@
-import { Request, Response } from "express";
+import { Request, Response, NextFunction } from "express";
 import { User } from "../models/User";
 import { Session } from "../models/Session";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { logger } from "../utils/logger";
+import { AppError } from "../middleware/errorHandler";
+import {
+  clearFailedLogins,
+  getLoginLockout,
+  recordFailedLogin,
+} from "../rateLimit/loginLockout";
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  ACTION_TOKEN_TTL_MINUTES,
+  generateRefreshToken,
+  consumeActionToken,
+  createActionToken,
+  hashToken,
+  refreshTokenExpiry,
+  signAccessToken,
+} from "../utils/tokens";
+import { passwordResetEmail, sendMail, verificationEmail } from "../mail";
+import { serializeUser } from "./profileController";
+import { LoginBody, RegisterBody, ResetPasswordBody } from "../validation/auth";
+
+// start a new login session and issue its token pair
+const createSession = async (userId: Types.ObjectId, req: Request) => {
+  const refreshToken = generateRefreshToken();
+  const session = await Session.create({
+    userId,
+    refreshTokenHash: hashToken(refreshToken),
+    expiresAt: refreshTokenExpiry(),
+    deviceInfo: req.headers["user-agent"],
+    ipAddress: req.ip,
+  });
+  const accessToken = signAccessToken(userId, session._id as Types.ObjectId);
+  return { session, accessToken, refreshToken };
+};
 
 // register a new user
-export const register = async (req: Request, res: Response) => {
+export const register = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const {name, email, password} = req.body;
-    if (!name || !email || !password) {
-      return res
-      .status(400)
-      .json ({ message: "Name, email, and password are required." });
-
-    }
+    const {name, email, password} = req.body as RegisterBody;
     // check if user already exists
     const existingUser = await User.findOne({email});
     if (existingUser) {
-      return res.status(409).json({message: "Email already in use."});
+      throw new AppError("Email already in use.", 409, "EMAIL_IN_USE");
     }
 
     // hash password
@@ -27,90 +55,295 @@ export const register = async (req: Request, res: Response) => {
     const user  = new User({ name, email, password: hashedPassword });
     await user.save();
 
+    // send the email verification link
+    const verificationToken = await createActionToken(
+      user._id as Types.ObjectId,
+      user.email,
+      "email_verification"
+    );
+    await sendMail(verificationEmail(user.email, user.name, verificationToken));
+
     // respond with success
     res.status(201).json({
-      user: {
-        _id: user._id,
-        name: user.name,
-        email: user.email
-      },
+      user: serializeUser(user),
       message: "User registered successfully."
     });
 
   } catch (error) {
-      res.status(500).json( { message: "Server error", error});
+    next(error);
 
   }
 
 };
 
 //login
-export const login = async (req: Request, res: Response) => {
+export const login = async (req: Request, res: Response, next: NextFunction) => {
   try {
-      const { email, password } = req.body;
-      //validate input
-      if (!email || !password) {
-        return res
-        .status(400)
-        .json( { message: "Email and password are required." });
-      }
+      const { email, password } = req.body as LoginBody;
+
+    // Too many recent failures for this email from this client, or from anywhere
+    const lockedFor = await getLoginLockout(email, req.ip);
+    if (lockedFor) {
+      res.setHeader("Retry-After", lockedFor);
+      throw new AppError(
+        "Too many failed login attempts. Please try again later.",
+        429,
+        "ACCOUNT_LOCKED"
+      );
+    }
 
   //find user 
   const user = await User.findOne({ email });
     if (!user) {
-      return res.status(401).json({ message: "Invalid email or password." });
+      await recordFailedLogin(email, req.ip);
+      throw new AppError("Invalid email or password.", 401, "INVALID_CREDENTIALS");
     }
   
  
    // Verify password
     const isPasswordValid = await bcrypt.compare(password, user.password);
     if (!isPasswordValid) {
-      return res.status(401).json({ message: "Invalid email or password." });
+      await recordFailedLogin(email, req.ip);
+      throw new AppError("Invalid email or password.", 401, "INVALID_CREDENTIALS");
     }
+    await clearFailedLogins(email, req.ip);
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id },
-      process.env.JWT_SECRET || "your-secret-key",
-      { expiresIn: "24h" }
+    // Create a session for this device and issue its tokens
+    const { session, accessToken, refreshToken } = await createSession(
+      user._id as Types.ObjectId,
+      req
     );
 
-    // Create session
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 24); // 24 hours from now
-
-    const session = new Session({
-      userId: user._id,
-      token,
-      expiresAt,
-      deviceInfo: req.headers["user-agent"],
-    });
-    await session.save();
-
     // Respond with user data and token
     res.json({
-      user: {
-        _id: user._id,
-        name: user.name,
-        email: user.email,
-      },
-      token,
+      user: serializeUser(user),
+      token: accessToken,
+      refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      sessionId: session._id,
       message: "Login successful",
     });
   } catch (error) {
-    res.status(500).json({ message: "Server error", error });
+    next(error);
   }
 };
 
 //logout
-export const logout = async (req: Request, res: Response) => {
+export const logout = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const token = req.header("Authorization")?.replace("Bearer ", "");
-    if (token) {
-      await Session.deleteOne({ token });
+    if (req.authSession) {
+      await Session.deleteOne({ _id: req.authSession._id });
     }
     res.json({ message: "Logged out successfully" });
   } catch (error) {
-    res.status(500).json({ message: "Server error", error });
+    next(error);
+  }
+};
+
+// exchange a refresh token for a new access/refresh token pair
+export const refresh = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { refreshToken } = req.body;
+
+    const tokenHash = hashToken(refreshToken);
+    const session = await Session.findOne({ refreshTokenHash: tokenHash });
+
+    if (!session) {
+      // A rotated-out token being replayed means it was probably stolen:
+      // end that session so neither copy can be used again
+      const reused = await Session.findOneAndDelete({
+        previousRefreshTokenHash: tokenHash,
+      });
+      if (reused) {
+        logger.warn("Refresh token reuse detected, session revoked", {
+          sessionId: reused._id,
+          userId: reused.userId,
+        });
+      }
+      throw new AppError("Invalid refresh token.", 401, "INVALID_TOKEN");
+    }
+
+    if (session.expiresAt < new Date()) {
+      await session.deleteOne();
+      throw new AppError("Refresh token expired.", 401, "TOKEN_EXPIRED");
+    }
+
+    const nextRefreshToken = generateRefreshToken();
+    session.previousRefreshTokenHash = session.refreshTokenHash;
+    session.refreshTokenHash = hashToken(nextRefreshToken);
+    session.expiresAt = refreshTokenExpiry();
+    session.lastActive = new Date();
+    await session.save();
+
+    res.json({
+      token: signAccessToken(session.userId, session._id as Types.ObjectId),
+      refreshToken: nextRefreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      message: "Token refreshed",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// list the devices the user is signed in on
+export const listSessions = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const sessions = await Session.find({
+      userId: req.user._id,
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastActive: -1 });
+
+    res.json({
+      sessions: sessions.map((session) => ({
+        id: session._id,
+        deviceInfo: session.deviceInfo,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastActive: session.lastActive,
+        current: String(session._id) === String(req.authSession?._id),
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// sign out one device
+export const revokeSession = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    if (!Types.ObjectId.isValid(id)) {
+      throw new AppError("Session not found.", 404);
+    }
+
+    const result = await Session.deleteOne({ _id: id, userId: req.user._id });
+    if (result.deletedCount === 0) {
+      throw new AppError("Session not found.", 404);
+    }
+
+    res.json({ message: "Session revoked" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// sign out every device (?keepCurrent=true keeps this one)
+export const revokeAllSessions = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const filter: Record<string, any> = { userId: req.user._id };
+    if (req.query.keepCurrent === "true" && req.authSession) {
+      filter._id = { $ne: req.authSession._id };
+    }
+
+    const result = await Session.deleteMany(filter);
+    res.json({ message: "Sessions revoked", revoked: result.deletedCount });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// request a password reset email
+export const forgotPassword = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email } = req.body;
+
+    // Same response whether or not the account exists, so this endpoint
+    // can't be used to discover registered emails
+    const user = await User.findOne({ email });
+    if (user) {
+      const token = await createActionToken(
+        user._id as Types.ObjectId,
+        user.email,
+        "password_reset"
+      );
+      const ttl = ACTION_TOKEN_TTL_MINUTES.password_reset;
+      await sendMail(passwordResetEmail(user.email, user.name, token, ttl));
+    }
+
+    res.json({
+      message: "If an account exists for that email, a reset link has been sent.",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// set a new password using a reset token
+export const resetPassword = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token, password } = req.body as ResetPasswordBody;
+
+    const resetToken = await consumeActionToken(token, "password_reset");
+    if (!resetToken) {
+      throw new AppError("Invalid or expired reset token.", 400, "INVALID_TOKEN");
+    }
+
+    const user = await User.findById(resetToken.userId);
+    if (!user) {
+      throw new AppError("Invalid or expired reset token.", 400, "INVALID_TOKEN");
+    }
+
+    user.password = await bcrypt.hash(password, 10);
+    // The link proves the user controls the inbox
+    if (user.email === resetToken.email && !user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+    }
+    await user.save();
+
+    // Sign out every device that knew the old password
+    await Session.deleteMany({ userId: user._id });
+    logger.info(`Password reset for user ${user._id}`);
+
+    res.json({ message: "Password has been reset. Please log in again." });
+  } catch (error) {
+    next(error);
   }
-};
\ No newline at end of file
+};
+
+// confirm an email address
+export const verifyEmail = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token } = req.body;
+
+    const verification = await consumeActionToken(token, "email_verification");
+    if (!verification) {
+      throw new AppError("Invalid or expired verification token.", 400, "INVALID_TOKEN");
+    }
+
+    const user = await User.findById(verification.userId);
+    // The address may have changed since the link was sent
+    if (!user || user.email !== verification.email) {
+      throw new AppError("Invalid or expired verification token.", 400, "INVALID_TOKEN");
+    }
+
+    user.emailVerified = true;
+    user.emailVerifiedAt = new Date();
+    await user.save();
+
+    res.json({ message: "Email verified successfully." });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// send a fresh verification email to the signed-in user
+export const resendVerification = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (req.user.emailVerified) {
+      throw new AppError("Email is already verified.", 409);
+    }
+
+    const token = await createActionToken(
+      req.user._id,
+      req.user.email,
+      "email_verification"
+    );
+    await sendMail(verificationEmail(req.user.email, req.user.name, token));
+
+    res.json({ message: "Verification email sent." });
+  } catch (error) {
+    next(error);
+  }
+};
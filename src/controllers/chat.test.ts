@@ -0,0 +1,366 @@
+import "mingo/init/system";
+import { Aggregator } from "mingo";
+import { NextFunction, Request, Response } from "express";
+import { Types } from "mongoose";
+import { z } from "zod";
+import { ChatSession, IChatSession } from "../models/chat";
+import { Goal } from "../models/Goal";
+import { LLMCall } from "../models/LLMCall";
+import { RiskEvent } from "../models/RiskEvent";
+import { TherapyMemory } from "../models/TherapyMemory";
+import { inngest } from "../inngest/client";
+import { setLLMProvider } from "../llm";
+import { StubProvider } from "../llm/stub";
+import { chatHistorySchema, listSessionsSchema } from "../validation/chat";
+import {
+  getAllChatSessions,
+  getChatHistory,
+  getMessageAnalysis,
+  streamMessage,
+  streamMessageAnalysis,
+} from "./chat";
+
+const userId = new Types.ObjectId();
+
+// Run the controllers' aggregation pipelines over in-memory sessions
+const storeSessions = (sessions: Record<string, unknown>[]) =>
+  jest
+    .spyOn(ChatSession, "aggregate")
+    .mockImplementation(((pipeline: Record<string, unknown>[]) =>
+      Promise.resolve(new Aggregator(pipeline).run(sessions))) as unknown as
+      typeof ChatSession.aggregate);
+
+// The query goes through the route's schema first, as validate() would
+const call = async (
+  handler: typeof getChatHistory,
+  schema: { query: z.ZodTypeAny },
+  { query = {}, ...request }: { query?: Record<string, unknown>; chatSession?: unknown }
+) => {
+  const res = { json: jest.fn(), status: jest.fn() };
+  res.status.mockReturnValue(res);
+  const next: NextFunction = jest.fn();
+  await handler(
+    { user: { _id: userId }, query: schema.query.parse(query), ...request } as Request,
+    res as unknown as Response,
+    next
+  );
+  expect(next).not.toHaveBeenCalled();
+  return res.json.mock.calls[0][0];
+};
+
+const message = (i: number) => ({
+  role: i % 2 ? "assistant" : "user",
+  content: `message ${i}`,
+  timestamp: new Date(Date.UTC(2024, 0, 1, 0, i)),
+});
+
+describe("getChatHistory", () => {
+  const session = {
+    sessionId: "s1",
+    userId,
+    messages: Array.from({ length: 5 }, (_, i) => message(i)),
+  };
+
+  const page = (cursor?: string) =>
+    call(getChatHistory, chatHistorySchema, {
+      chatSession: session,
+      query: { limit: "2", cursor },
+    });
+  const contents = (body: { data: { content: string }[] }) => body.data.map((m) => m.content);
+
+  it("pages backwards from the newest message, oldest first within a page", async () => {
+    const first = await page();
+    expect(contents(first)).toEqual(["message 3", "message 4"]);
+    expect(first.pagination.hasMore).toBe(true);
+
+    const second = await page(first.pagination.nextCursor);
+    expect(contents(second)).toEqual(["message 1", "message 2"]);
+
+    const last = await page(second.pagination.nextCursor);
+    expect(contents(last)).toEqual(["message 0"]);
+    expect(last.pagination).toEqual({ limit: 2, hasMore: false, nextCursor: null });
+  });
+
+  it("rejects a cursor that does not point into the history", async () => {
+    const next = jest.fn();
+
+    await getChatHistory(
+      { chatSession: session, query: { limit: 2, cursor: { before: -1 } } } as unknown as Request,
+      { json: jest.fn() } as unknown as Response,
+      next
+    );
+
+    expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 400, code: "INVALID_CURSOR" }));
+  });
+});
+
+describe("getAllChatSessions", () => {
+  const updatedAt = new Date("2024-01-02");
+  // Two sessions share an updatedAt so the _id tiebreak is exercised
+  const sessions = [
+    { _id: new Types.ObjectId("65a000000000000000000001"), updatedAt },
+    { _id: new Types.ObjectId("65a000000000000000000002"), updatedAt },
+    { _id: new Types.ObjectId("65a000000000000000000003"), updatedAt: new Date("2024-01-03") },
+    { _id: new Types.ObjectId("65a000000000000000000004"), updatedAt: new Date("2024-01-01") },
+  ].map((session, i) => ({
+    ...session,
+    sessionId: `s${i + 1}`,
+    userId,
+    status: "active",
+    startTime: session.updatedAt,
+    messages: [message(i)],
+  }));
+
+  it("walks every session exactly once, most recently updated first", async () => {
+    storeSessions(sessions);
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const { data, pagination } = await call(getAllChatSessions, listSessionsSchema, {
+        query: { limit: "2", cursor },
+      });
+      seen.push(...data.map((s: { sessionId: string }) => s.sessionId));
+      cursor = pagination.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual(["s3", "s2", "s1", "s4"]);
+  });
+
+  it("summarizes sessions instead of returning their messages", async () => {
+    storeSessions(sessions.slice(0, 1));
+
+    const { data } = await call(getAllChatSessions, listSessionsSchema, {});
+
+    expect(data[0]).toMatchObject({
+      sessionId: "s1",
+      messageCount: 1,
+      userMessageCount: 1,
+      lastMessage: { role: "user", preview: "message 0" },
+    });
+    expect(data[0]).not.toHaveProperty("messages");
+  });
+});
+
+describe("streamMessage", () => {
+  // Streams a fixed reply, optionally failing part way through
+  class ChunkProvider extends StubProvider {
+    calls = 0;
+    constructor(private chunks: string[], private failAfter?: number) {
+      super();
+    }
+
+    async *streamText() {
+      this.calls++;
+      for (const [i, chunk] of this.chunks.entries()) {
+        if (i === this.failAfter) throw new Error("model unavailable");
+        yield chunk;
+      }
+    }
+  }
+
+  let session: IChatSession;
+  let sent: jest.SpyInstance;
+
+  beforeEach(() => {
+    session = new ChatSession({ sessionId: "s1", userId, status: "active", messages: [] });
+    jest.spyOn(session, "save").mockResolvedValue(session);
+    jest.spyOn(TherapyMemory, "findOne").mockResolvedValue(null);
+    jest.spyOn(Goal, "find").mockReturnValue({
+      sort: () => ({ limit: () => Promise.resolve([]) }),
+    } as unknown as ReturnType<typeof Goal.find>);
+    jest.spyOn(LLMCall, "create").mockResolvedValue([]);
+    sent = jest.spyOn(inngest, "send").mockResolvedValue({ ids: [] });
+  });
+
+  afterEach(() => setLLMProvider(new StubProvider()));
+
+  // Runs the handler and returns the Server-Sent Events it wrote
+  const stream = async (message: string) => {
+    let body = "";
+    const res = {
+      writeHead: jest.fn(),
+      flushHeaders: jest.fn(),
+      on: jest.fn(),
+      write: (chunk: string) => (body += chunk),
+      end: jest.fn(),
+      writableEnded: false,
+    };
+    const next = jest.fn();
+    await streamMessage(
+      {
+        user: { _id: userId, id: String(userId), preferences: {} },
+        params: { sessionId: "s1" },
+        headers: {},
+        body: { message },
+        chatSession: session,
+      } as unknown as Request,
+      res as unknown as Response,
+      next
+    );
+    expect(next).not.toHaveBeenCalled();
+    expect(res.writeHead).toHaveBeenCalledWith(
+      200,
+      expect.objectContaining({ "Content-Type": "text/event-stream" })
+    );
+    expect(res.end).toHaveBeenCalled();
+    return body
+      .trim()
+      .split("\n\n")
+      .map((block) => {
+        const [event, data] = block.split("\n").map((line) => line.replace(/^\w+: /, ""));
+        return { event, data: JSON.parse(data) };
+      });
+  };
+
+  it("streams the reply as tokens, saves both turns and queues the analysis", async () => {
+    setLLMProvider(new ChunkProvider(["Hello", " there"]));
+
+    const events = await stream("I had a rough day");
+
+    expect(events.map((e) => e.event)).toEqual(["token", "token", "done"]);
+    expect(events[2].data).toMatchObject({ response: "Hello there", analysisStatus: "pending" });
+    expect(session.messages.map((m) => [m.role, m.content])).toEqual([
+      ["user", "I had a rough day"],
+      ["assistant", "Hello there"],
+    ]);
+    expect(events[2].data.messageId).toBe(String(session.messages[1]._id));
+    expect(sent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "therapy/session.message",
+        data: expect.objectContaining({
+          messageId: String(session.messages[0]._id),
+          replyId: String(session.messages[1]._id),
+        }),
+      })
+    );
+  });
+
+  it("keeps the user's message when the reply fails part way", async () => {
+    setLLMProvider(new ChunkProvider(["Hello", " there"], 1));
+
+    const events = await stream("I had a rough day");
+
+    expect(events.map((e) => e.event)).toEqual(["token", "error"]);
+    expect(events[1].data).toMatchObject({
+      code: "INTERNAL_ERROR",
+      messageId: String(session.messages[0]._id),
+    });
+    expect(session.messages.map((m) => m.role)).toEqual(["user"]);
+    expect(session.save).toHaveBeenCalled();
+  });
+
+  it("answers a crisis message with resources instead of the model", async () => {
+    const provider = new ChunkProvider(["Hello"]);
+    setLLMProvider(provider);
+    jest.spyOn(RiskEvent, "findOne").mockResolvedValue(null);
+    const risk = jest.spyOn(RiskEvent, "create").mockResolvedValue([]);
+
+    const events = await stream("I want to kill myself");
+
+    expect(provider.calls).toBe(0);
+    expect(events.map((e) => e.event)).toEqual(["token", "done"]);
+    expect(events[1].data).toMatchObject({
+      analysisStatus: "completed",
+      analysis: { riskLevel: 10 },
+    });
+    expect(risk).toHaveBeenCalledWith(expect.objectContaining({ riskLevel: 10 }));
+  });
+});
+
+describe("message analysis", () => {
+  const ANALYSIS = {
+    emotionalState: "anxious",
+    themes: ["work"],
+    riskLevel: 2,
+    recommendedApproach: "supportive",
+    progressIndicators: [],
+  };
+
+  const buildSession = () =>
+    new ChatSession({
+      sessionId: "s1",
+      userId,
+      messages: [
+        { role: "user", content: "hi", timestamp: new Date() },
+        {
+          role: "assistant",
+          content: "hello",
+          timestamp: new Date(),
+          metadata: { analysisStatus: "pending" },
+        },
+      ],
+    });
+
+  afterEach(() => jest.useRealTimers());
+
+  const request = (session: IChatSession, messageId: unknown) =>
+    ({
+      user: { preferences: {} },
+      headers: {},
+      params: { sessionId: "s1", messageId: String(messageId) },
+      chatSession: session,
+    }) as unknown as Request;
+
+  it("reports the reply's analysis when polled with the user's message id", async () => {
+    const session = buildSession();
+    const res = { json: jest.fn() };
+    const poll = () =>
+      getMessageAnalysis(
+        request(session, session.messages[0]._id),
+        res as unknown as Response,
+        jest.fn()
+      );
+
+    await poll();
+    expect(res.json.mock.calls[0][0].data).toMatchObject({
+      messageId: session.messages[1]._id,
+      status: "pending",
+      analysis: null,
+    });
+
+    session.messages[1].metadata = { analysisStatus: "completed", analysis: ANALYSIS };
+    await poll();
+    expect(res.json.mock.calls[1][0].data).toMatchObject({
+      status: "completed",
+      analysis: ANALYSIS,
+      crisisResources: undefined,
+    });
+  });
+
+  it("sends a single event once a pending analysis is stored", async () => {
+    jest.useFakeTimers();
+    const session = buildSession();
+    const reply = session.messages[1];
+    const stored = (metadata: Record<string, unknown>) =>
+      ({
+        lean: async () => ({ userId, messages: [{ _id: reply._id, role: "assistant", metadata }] }),
+      }) as unknown as ReturnType<typeof ChatSession.findOne>;
+    // Still pending on the first check, stored by the workflow on the second
+    const findOne = jest
+      .spyOn(ChatSession, "findOne")
+      .mockReturnValueOnce(stored({ analysisStatus: "pending" }))
+      .mockReturnValueOnce(stored({ analysisStatus: "completed", analysis: ANALYSIS }));
+
+    let body = "";
+    const res = {
+      writeHead: jest.fn(),
+      flushHeaders: jest.fn(),
+      on: jest.fn(),
+      write: (chunk: string) => (body += chunk),
+      end: jest.fn(),
+    };
+    const done = streamMessageAnalysis(
+      request(session, reply._id),
+      res as unknown as Response,
+      jest.fn()
+    );
+    await jest.advanceTimersByTimeAsync(2000);
+    await done;
+
+    expect(findOne).toHaveBeenCalledTimes(2);
+    expect(body.match(/^event: .*/gm)).toEqual(["event: analysis"]);
+    expect(body).toContain('"status":"completed"');
+    expect(res.end).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,37 +1,81 @@
 import { Request, Response, NextFunction } from "express";
-import { ChatSession, IChatSession } from "../models/chat";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  CHAT_SESSION_STATUSES,
+  ChatSession,
+  IChatMessage,
+  IChatSession,
+  MessageAnalysisStatus,
+  SESSION_TRANSITIONS,
+} from "../models/chat";
 import { v4 as uuidv4 } from "uuid";
 import { logger } from "../utils/logger";
-// import { inngest } from "@/inngest";
-import { inngest } from "../inngest/client";
 
-import { User } from "../models/User";
-import { InngestSessionResponse, InngestEvent } from "../types/inngest";
+import { User, IUser, IUserPreferences } from "../models/User";
+import { InngestSessionResponse, MessageAnalysis } from "../types/inngest";
 import { Types } from "mongoose";
-
-// Initialize Gemini API
-
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-if (!GEMINI_API_KEY) {
-  throw new Error('GEMINI_API_KEY environment variable is not defined');
-}
-
-const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
+import { getLLMProvider } from "../llm";
+import { buildConversationContext, formatTranscript } from "../utils/conversation";
+import {
+  RISK_THRESHOLD,
+  crisisAnalysis,
+  getCrisisResources,
+  getCrisisResponse,
+  recordRiskEvent,
+  resolveLocale,
+  screenMessage,
+} from "../safety";
+import { ITherapyMemory } from "../models/TherapyMemory";
+import { IGoal } from "../models/Goal";
+import { describeTherapyMemory, loadTherapyMemory } from "../utils/therapyMemory";
+import { describeGoals, getActiveGoals } from "../utils/goals";
+import { describeResponsePreferences } from "../utils/preferences";
+import {
+  decryptChatSession,
+  decryptGoal,
+  decryptMessage,
+  decryptMessages,
+} from "../utils/secureFields";
+import { decryptJSON } from "../utils/encryption";
+import {
+  sendMessageAnalysisEvent,
+  sendSessionCompletedEvent,
+  sendTopicRefreshEvent,
+} from "../utils/inngestEvents";
+import {
+  buildTopicPrompt,
+  cleanTopic,
+  generateFallbackTopic,
+  shouldRefreshTopic,
+  topicOutcome,
+} from "../utils/topics";
+import { requireUserId } from "../middleware/auth";
+import { AppError } from "../middleware/errorHandler";
+import { validatedQuery } from "../middleware/validate";
+import { dateRangeFilter, encodeCursor } from "../utils/queryParams";
+import { ChatHistoryQuery, ListSessionsQuery, SearchChatQuery } from "../validation/chat";
+import { searchChatSessions } from "../utils/chatSearch";
+import { findStoredMessage, storeMessageAnalysis } from "../utils/messageAnalysis";
+
+// Set by the loadOwnedSession middleware on every /sessions/:sessionId route
+const ownedSession = (req: Request) => {
+  if (!req.chatSession) {
+    throw new Error("loadOwnedSession must run before this handler");
+  }
+  return req.chatSession;
+};
 
 // create a new chat session
-export const createChatSession = async (req: Request, res: Response) => {
+export const createChatSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
   try {
-    if (!req.user || !req.user.id) {
-      return res.status(401).json({
-        message: "Unauthorized",
-      });
-    }
-    const userId = new Types.ObjectId(String(req.user.id));
+    const userId = requireUserId(req);
     const user = await User.findById(userId);
 
     if (!user) {
-      return res.status(404).json({ message: "User not found" });
+      throw new AppError("User not found", 404, "USER_NOT_FOUND");
     }
 
     // Generate a unique sessionId
@@ -52,353 +96,731 @@ export const createChatSession = async (req: Request, res: Response) => {
       sessionId: session.sessionId,
     });
   } catch (error) {
-    logger.error("Error creating chat session:", error);
-    res.status(500).json({
-      message: "Error creating chat session",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+    next(error);
   }
 };
 
+// Only active sessions take new messages
+const assertSessionActive = (session: IChatSession) => {
+  if (session.status === "active") return;
+  throw new AppError(
+    session.status === "paused"
+      ? "Session is paused - resume it to continue"
+      : `Session is ${session.status} and no longer accepts messages`,
+    409,
+    "SESSION_INACTIVE"
+  );
+};
 
-// Send a message in the chat session
-export const sendMessage = async (req: Request, res: Response) => {
+// Topics are generated in the background once a session has enough to go on
+const queueTopicRefresh = async (session: IChatSession) => {
+  if (!shouldRefreshTopic(session)) return;
   try {
-    const { sessionId } = req.params;
-    const { message } = req.body;
-
-    // Validate input
-    if (!message || typeof message !== 'string' || message.trim().length === 0) {
-      logger.warn("Empty or invalid message received:", { sessionId, message });
-      return res.status(400).json({ message: "Message cannot be empty" });
-    }
+    await sendTopicRefreshEvent(session.sessionId);
+  } catch {
+    // Already logged; the next message will try again
+  }
+};
 
-    // ADDED CHECK: Ensure user is authenticated
-    if (!req.user || !req.user.id) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-    const userId = new Types.ObjectId(req.user.id);
+const FALLBACK_RESPONSE =
+  "I hear that you're looking for support with managing anxiety. That's a very common concern, and it's great that you're reaching out. There are several effective strategies we can explore together. What specific situations tend to trigger your anxiety the most?";
 
-    logger.info("Processing message:", { sessionId, message: message.substring(0, 100) + "..." });
+const progressOf = (analysis: MessageAnalysis) => ({
+  emotionalState: analysis.emotionalState,
+  riskLevel: analysis.riskLevel,
+});
 
-    // Find session by sessionId
-    const session = await ChatSession.findOne({ sessionId });
-    if (!session) {
-      logger.warn("Session not found:", { sessionId });
-      return res.status(404).json({ message: "Session not found" });
-    }
+// What we know about the user beyond this session
+interface UserContext {
+  memory: ITherapyMemory | null;
+  goals: IGoal[];
+  preferences?: IUserPreferences;
+}
 
-    if (session.userId.toString() !== userId.toString()) {
-      logger.warn("Unauthorized access attempt:", { sessionId, userId });
-      return res.status(403).json({ message: "Unauthorized" });
-    }
+const loadUserContext = async (user: IUser): Promise<UserContext> => {
+  const [memory, goals] = await Promise.all([
+    loadTherapyMemory(user._id as Types.ObjectId),
+    getActiveGoals(user._id as Types.ObjectId).then((active) =>
+      Promise.all(active.map(decryptGoal))
+    ),
+  ]);
+  return { memory, goals, preferences: user.preferences };
+};
 
-    // FIXED: Add user message to history FIRST
-    session.messages.push({
-      role: "user",
-      content: message.trim(),
-      timestamp: new Date(),
+// Hand the message to the analysis workflow. If it can't be queued the
+// reply is marked failed so clients stop waiting for it.
+const queueMessageAnalysis = async (
+  session: IChatSession,
+  messageId: string,
+  replyId: string | undefined,
+  locale: string
+): Promise<MessageAnalysisStatus> => {
+  try {
+    await sendMessageAnalysisEvent({
+      sessionId: session.sessionId,
+      userId: session.userId.toString(),
+      messageId,
+      replyId,
+      locale,
     });
+    return "pending";
+  } catch {
+    await storeMessageAnalysis({
+      sessionId: session.sessionId,
+      userId: session.userId,
+      messageId: replyId || messageId,
+      status: "failed",
+    }).catch((error) => logger.error("Could not mark analysis failed:", error));
+    return "failed";
+  }
+};
 
-    // Create Inngest event for message processing
-    const event: InngestEvent = {
-      name: "therapy/session.message",
-      data: {
-        message: message.trim(),
-        history: session.messages,
-        memory: {
-          userProfile: {
-            emotionalState: [],
-            riskLevel: 0,
-            preferences: {},
-          },
-          sessionContext: {
-            conversationThemes: [],
-            currentTechnique: null,
-          },
-        },
-        goals: [],
-        systemPrompt: `You are an AI therapist assistant. Your role is to:
-  1. Provide empathetic and supportive responses
-  2. Use evidence-based therapeutic techniques
-  3. Maintain professional boundaries
-  4. Monitor for risk factors
-  5. Guide users toward their therapeutic goals`,
-      },
-    };
-
-    logger.info("Sending message to Inngest");
-
-    try {
-      // Send event to Inngest for logging and analytics
-      await inngest.send(event);
-    } catch (inngestError) {
-      logger.warn("Inngest send failed:", inngestError);
-      // Continue processing even if Inngest fails
-    }
-
-    // Process the message directly using Gemini
-    const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash-lite" });
-
-    let analysis;
-    try {
-      // Analyze the message
-      const analysisPrompt = `Analyze this therapy message and provide insights. Return ONLY a valid JSON object with no markdown formatting or additional text.
-Message: ${message.trim()}
-
-Required JSON structure:
-{
-  "emotionalState": "string",
-  "themes": ["string"],
-  "riskLevel": 1,
-  "recommendedApproach": "string",
-  "progressIndicators": ["string"]
-}`;
-
-      logger.info("Sending analysis request to Gemini");
-      const analysisResult = await model.generateContent(analysisPrompt);
-      const analysisText = analysisResult.response.text().trim();
-      logger.info("Raw analysis response:", analysisText.substring(0, 200) + "...");
-      
-      const cleanAnalysisText = analysisText
-        .replace(/```json\n?/g, "")
-        .replace(/\n?```/g, "")
-        .trim();
-      
-      analysis = JSON.parse(cleanAnalysisText);
-      logger.info("Message analysis successful:", analysis);
-    } catch (analysisError) {
-      // Fallback analysis if JSON parsing fails
-      logger.warn("Analysis failed, using fallback:", analysisError);
-      analysis = {
-        emotionalState: "seeking_support",
-        themes: ["anxiety_management"],
-        riskLevel: 1,
-        recommendedApproach: "cognitive_behavioral",
-        progressIndicators: ["active_engagement"]
-      };
-    }
-
-    let response;
-    try {
-      // Generate therapeutic response
-      const responsePrompt = `You are an AI therapist assistant. Provide a helpful, empathetic response to this message:
-
-Message: ${message.trim()}
+// Prompt for the assistant reply, built from the recent conversation
+const buildResponsePrompt = async (
+  session: IChatSession,
+  message: string,
+  { memory, goals, preferences }: UserContext
+) => {
+  const context = await buildConversationContext(session);
+  const preferenceGuidance = describeResponsePreferences(preferences);
+  const remembered = describeTherapyMemory(memory);
+  const activeGoals = describeGoals(goals);
+  return `You are an AI therapist assistant. Provide a helpful, empathetic response to the latest message in this conversation.
+${remembered ? `\nWhat you remember about this user from previous sessions:\n${remembered}\n` : ""}${activeGoals ? `\nThe user's active therapeutic goals:\n${activeGoals}\n` : ""}${context.summary ? `\nSummary of earlier conversation:\n${context.summary}\n` : ""}${context.history.length ? `\nRecent conversation:\n${formatTranscript(context.history)}\n` : ""}
+Latest message: ${message}
 
 Guidelines:
 - Be warm and supportive
 - Use therapeutic techniques when appropriate
 - Keep responses conversational but professional
 - Focus on the person's immediate needs
-- Ask follow-up questions to encourage reflection`;
-
-      logger.info("Sending response request to Gemini");
-      const responseResult = await model.generateContent(responsePrompt);
-      response = responseResult.response.text().trim();
-      logger.info("Response generated successfully, length:", response.length);
-    } catch (responseError) {
-      // FIXED: Fallback response if generation fails
-      logger.warn("Response generation failed, using fallback:", responseError);
-      response = "I hear that you're looking for support with managing anxiety. That's a very common concern, and it's great that you're reaching out. There are several effective strategies we can explore together. What specific situations tend to trigger your anxiety the most?";
+- Stay consistent with what was said earlier in the conversation
+- Draw on what you remember only when it is relevant, and never invent details
+- Where it fits naturally, connect the conversation to the user's goals
+- Ask follow-up questions to encourage reflection${
+    preferenceGuidance ? `\n\nThe user has asked for replies like this:\n${preferenceGuidance}` : ""
+  }`;
+};
+
+// Send a message in the chat session. The reply is returned straight
+// away; its analysis follows in the background (see getMessageAnalysis).
+export const sendMessage = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { sessionId } = req.params;
+    const { message } = req.body;
+    const session = ownedSession(req);
+    const userId = session.userId;
+    assertSessionActive(session);
+
+    logger.info("Processing message:", { sessionId, length: message.length });
+
+    session.messages.push({
+      role: "user",
+      content: message.trim(),
+      timestamp: new Date(),
+    });
+
+    const userMessage = session.messages[session.messages.length - 1];
+    const screen = screenMessage(message.trim());
+    const locale = resolveLocale(
+      req.user.preferences?.language || req.headers["accept-language"]
+    );
+
+    const userContext = await loadUserContext(req.user);
+
+    // A crisis message is never left to the model, so its analysis is known now
+    let analysis: MessageAnalysis | undefined;
+    let response: string;
+    if (screen.flagged) {
+      logger.warn("Crisis pre-screen matched:", { sessionId, riskLevel: screen.riskLevel });
+      analysis = crisisAnalysis(screen);
+      response = getCrisisResponse(locale);
+    } else {
+      try {
+        // Generate therapeutic response from the recent conversation
+        const responsePrompt = await buildResponsePrompt(session, message.trim(), userContext);
+
+        logger.info("Sending response request to LLM");
+        response = await getLLMProvider().generateText(responsePrompt, {
+          task: "response",
+          userId: String(userId),
+        });
+        logger.info("Response generated successfully, length:", response.length);
+      } catch (responseError) {
+        logger.warn("Response generation failed, using fallback:", responseError);
+        response = FALLBACK_RESPONSE;
+      }
     }
 
-    // FIXED: Add ONLY the assistant's response (removed duplicate)
     session.messages.push({
       role: "assistant",
       content: response,
       timestamp: new Date(),
       metadata: {
-        analysis,
-        progress: {
-          emotionalState: analysis.emotionalState,
-          riskLevel: analysis.riskLevel,
-        },
+        goal: userContext.goals[0] ? String(userContext.goals[0]._id) : undefined,
+        ...(analysis
+          ? { analysis, analysisStatus: "completed", progress: progressOf(analysis) }
+          : { analysisStatus: "pending" }),
       },
     });
+    const reply = session.messages[session.messages.length - 1];
 
-    // Save the updated session
     await session.save();
     logger.info("Session updated successfully:", { sessionId, messageCount: session.messages.length });
+    await queueTopicRefresh(session);
+
+    let analysisStatus: MessageAnalysisStatus = "completed";
+    if (analysis) {
+      await recordRiskEvent({
+        userId,
+        sessionId,
+        messageId: userMessage._id!,
+        riskLevel: analysis.riskLevel,
+        source: "prescreen",
+        matches: screen.matches,
+        locale,
+      });
+    } else {
+      analysisStatus = await queueMessageAnalysis(
+        session,
+        String(userMessage._id),
+        String(reply._id),
+        locale
+      );
+    }
 
-    // Return the response
     res.json({
       response,
       message: response,
-      analysis,
-      metadata: {
-        progress: {
-          emotionalState: analysis.emotionalState,
-          riskLevel: analysis.riskLevel,
-        },
-      },
+      messageId: reply._id,
+      analysis: analysis || null,
+      analysisStatus,
+      metadata: analysis ? { progress: progressOf(analysis) } : {},
     });
   } catch (error) {
-    logger.error("Error in sendMessage:", error);
-    res.status(500).json({
-      message: "Error processing message",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+    next(error);
   }
 };
 
+// Send a message and stream the reply back over Server-Sent Events
+export const streamMessage = async (req: Request, res: Response, next: NextFunction) => {
+  const { sessionId } = req.params;
+  const { message } = req.body;
 
-//STOP4
-// Get chat session history
-export const getSessionHistory = async (req: Request, res: Response) => {
+  // Errors before the stream opens go through the normal error handler;
+  // after that they can only be reported as SSE "error" events
+  let session: IChatSession;
   try {
-    const { sessionId } = req.params;
+    session = ownedSession(req);
+    assertSessionActive(session);
+  } catch (error) {
+    return next(error);
+  }
+  const userId = session.userId;
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  const sendEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Stop generating if the client goes away before we finish
+  let aborted = false;
+  res.on("close", () => {
+    if (!res.writableEnded) aborted = true;
+  });
+
+  session.messages.push({
+    role: "user",
+    content: message.trim(),
+    timestamp: new Date(),
+  });
+
+  const userMessage = session.messages[session.messages.length - 1];
+  const screen = screenMessage(message.trim());
+  const locale = resolveLocale(
+    req.user.preferences?.language || req.headers["accept-language"]
+  );
+
+  const userContext = await loadUserContext(req.user).catch(
+    (): UserContext => ({ memory: null, goals: [], preferences: req.user.preferences })
+  );
+
+  let analysis: MessageAnalysis | undefined;
+  let response = "";
+  // A stream that fails part way loses its reply but never the user's turn
+  let generationFailed = false;
+  if (screen.flagged) {
+    logger.warn("Crisis pre-screen matched:", { sessionId, riskLevel: screen.riskLevel });
+    analysis = crisisAnalysis(screen);
+    response = getCrisisResponse(locale);
+    sendEvent("token", { text: response });
+  } else {
+    try {
+      const responsePrompt = await buildResponsePrompt(session, message.trim(), userContext);
+      for await (const chunk of getLLMProvider().streamText(responsePrompt, {
+        task: "response",
+        userId: String(userId),
+      })) {
+        if (aborted) break;
+        response += chunk;
+        sendEvent("token", { text: chunk });
+      }
+    } catch (error) {
+      logger.error("Error streaming response:", error);
+      generationFailed = true;
+    }
+  }
 
-    // ADDED CHECK: Ensure user is authenticated
-    if (!req.user || !req.user.id) {
-      return res.status(401).json({ message: "Unauthorized" });
+  try {
+    // A client abort still leaves a clean partial reply worth keeping,
+    // a provider failure does not
+    let reply: IChatMessage | undefined;
+    if (!generationFailed && response.trim()) {
+      session.messages.push({
+        role: "assistant",
+        content: response.trim(),
+        timestamp: new Date(),
+        metadata: {
+          goal: userContext.goals[0] ? String(userContext.goals[0]._id) : undefined,
+          ...(analysis
+            ? { analysis, analysisStatus: "completed", progress: progressOf(analysis) }
+            : { analysisStatus: "pending" }),
+        },
+      });
+      reply = session.messages[session.messages.length - 1];
     }
-    const userId = new Types.ObjectId(req.user.id);
 
-    const session = (await ChatSession.findById(
-      sessionId
-    ).exec()) as IChatSession;
-    if (!session) {
-      return res.status(404).json({ message: "Session not found" });
+    await session.save();
+    logger.info("Streamed session updated:", {
+      sessionId,
+      aborted,
+      generationFailed,
+      messageCount: session.messages.length,
+    });
+    await queueTopicRefresh(session);
+
+    let analysisStatus: MessageAnalysisStatus = "completed";
+    if (analysis) {
+      await recordRiskEvent({
+        userId,
+        sessionId,
+        messageId: userMessage._id!,
+        riskLevel: analysis.riskLevel,
+        source: "prescreen",
+        matches: screen.matches,
+        locale,
+      });
+    } else {
+      analysisStatus = await queueMessageAnalysis(
+        session,
+        String(userMessage._id),
+        reply && String(reply._id),
+        locale
+      );
     }
 
-    if (session.userId.toString() !== userId.toString()) {
-      return res.status(403).json({ message: "Unauthorized" });
+    if (aborted) return;
+    if (generationFailed) {
+      sendEvent("error", {
+        code: "INTERNAL_ERROR",
+        message: "Error generating response",
+        // The user's message was saved and can be retried from history
+        messageId: userMessage._id,
+      });
+    } else {
+      sendEvent("done", {
+        response: response.trim(),
+        // Poll or subscribe with this id for the analysis
+        messageId: reply?._id || userMessage._id,
+        analysis: analysis || null,
+        analysisStatus,
+        metadata: analysis ? { progress: progressOf(analysis) } : {},
+      });
     }
+    res.end();
+  } catch (error) {
+    logger.error("Error saving streamed session:", error);
+    if (!aborted) {
+      sendEvent("error", { code: "INTERNAL_ERROR", message: "Error saving message" });
+      res.end();
+    }
+  }
+};
+
+const ANALYSIS_POLL_INTERVAL_MS = 1000;
+const ANALYSIS_WAIT_MS = 60 * 1000;
+
+// A user message's analysis is stored on the reply that follows it
+const findAnalyzedMessage = (messages: IChatMessage[], messageId: string) => {
+  const index = messages.findIndex((msg) => String(msg._id) === messageId);
+  if (index === -1) return undefined;
+  const next = messages[index + 1];
+  return messages[index].role === "user" && next?.role === "assistant"
+    ? next
+    : messages[index];
+};
 
+const describeAnalysis = async (req: Request, stored: IChatMessage) => {
+  const message = await decryptMessage(stored);
+  const analysis: MessageAnalysis | undefined = message.metadata?.analysis;
+  // Messages from before background analysis have no status
+  const status = message.metadata?.analysisStatus || (analysis ? "completed" : "unavailable");
+  const locale = resolveLocale(
+    req.user.preferences?.language || req.headers["accept-language"]
+  );
+  return {
+    messageId: message._id,
+    status,
+    analysis: analysis || null,
+    progress: message.metadata?.progress,
+    // Also added to the conversation by the analysis workflow
+    crisisResources:
+      analysis && analysis.riskLevel > RISK_THRESHOLD ? getCrisisResources(locale) : undefined,
+  };
+};
+
+// Poll for the background analysis of a message (or of the reply to it)
+export const getMessageAnalysis = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const message = findAnalyzedMessage(ownedSession(req).messages, req.params.messageId);
+    if (!message) {
+      throw new AppError("Message not found", 404, "MESSAGE_NOT_FOUND");
+    }
+    res.json({ success: true, data: await describeAnalysis(req, message) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Subscribe to a message's analysis over Server-Sent Events: a single
+// "analysis" event once it has finished, or "timeout" if it takes too long
+export const streamMessageAnalysis = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { sessionId } = req.params;
+  let message: IChatMessage | undefined;
+  try {
+    message = findAnalyzedMessage(ownedSession(req).messages, req.params.messageId);
+    if (!message) {
+      throw new AppError("Message not found", 404, "MESSAGE_NOT_FOUND");
+    }
+  } catch (error) {
+    return next(error);
+  }
+  const messageId = String(message._id);
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  const sendEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  let closed = false;
+  res.on("close", () => {
+    closed = true;
+  });
+
+  // The workflow may run on another instance, so watch the stored message
+  const deadline = Date.now() + ANALYSIS_WAIT_MS;
+  try {
+    while (!closed && message.metadata?.analysisStatus === "pending") {
+      if (Date.now() >= deadline) {
+        sendEvent("timeout", { messageId, status: "pending" });
+        return res.end();
+      }
+      await new Promise((resolve) => setTimeout(resolve, ANALYSIS_POLL_INTERVAL_MS));
+      const stored = await findStoredMessage(sessionId, messageId);
+      if (!stored) {
+        sendEvent("error", { code: "MESSAGE_NOT_FOUND", message: "Message not found" });
+        return res.end();
+      }
+      message = stored.message;
+    }
+    if (closed) return;
+
+    sendEvent("analysis", await describeAnalysis(req, message));
+  } catch (error) {
+    logger.error("Error waiting for message analysis:", error);
+    if (!closed) {
+      sendEvent("error", { code: "INTERNAL_ERROR", message: "Error loading analysis" });
+    }
+  }
+  res.end();
+};
+
+//STOP4
+// Get chat session history
+export const getSessionHistory = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const session = ownedSession(req);
     res.json({
-      messages: session.messages,
+      messages: await decryptMessages(session.messages),
       startTime: session.startTime,
       status: session.status,
     });
   } catch (error) {
-    logger.error("Error fetching session history:", error);
-    res.status(500).json({ message: "Error fetching session history" });
+    next(error);
   }
 };
 
-export const getChatSession = async (req: Request, res: Response) => {
+export const getChatSession = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { sessionId } = req.params;
-    logger.info(`Getting chat session: ${sessionId}`);
-    const chatSession = await ChatSession.findOne({ sessionId });
-    if (!chatSession) {
-      logger.warn(`Chat session not found: ${sessionId}`);
-      return res.status(404).json({ error: "Chat session not found" });
-    }
-    logger.info(`Found chat session: ${sessionId}`);
-    res.json(chatSession);
+    res.json(await decryptChatSession(ownedSession(req)));
   } catch (error) {
-    logger.error("Failed to get chat session:", error);
-    res.status(500).json({ error: "Failed to get chat session" });
+    next(error);
   }
 };
 
+const MESSAGE_PREVIEW_LENGTH = 120;
+
+interface HistoryCursor {
+  before: number; // index of the oldest message already returned
+}
+
+interface SessionListCursor {
+  updatedAt: string;
+  id: string;
+}
+
 // Renamed from getChatHistory to avoid confusion with the previous one
-export const getChatHistory = async (req: Request, res: Response) => {
+// Pages backwards from the newest message; each page is in chronological order
+export const getChatHistory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
   try {
-    const { sessionId } = req.params;
+    const { messages } = ownedSession(req);
 
-    // ADDED CHECK: Ensure user is authenticated
-    if (!req.user || !req.user.id) {
-      return res.status(401).json({ message: "Unauthorized" });
+    const query = validatedQuery<ChatHistoryQuery>(req);
+    const { limit } = query;
+    const cursor = query.cursor as HistoryCursor | undefined;
+    if (cursor && (!Number.isInteger(cursor.before) || cursor.before < 0)) {
+      throw new AppError("Invalid 'cursor'", 400, "INVALID_CURSOR");
     }
-    const userId = new Types.ObjectId(req.user.id);
 
-    // Find session by sessionId instead of _id
-    const session = await ChatSession.findOne({ sessionId });
-    if (!session) {
-      return res.status(404).json({ message: "Session not found" });
-    }
-
-    if (session.userId.toString() !== userId.toString()) {
-      return res.status(403).json({ message: "Unauthorized" });
-    }
+    // Only the requested page is decrypted
+    const end = Math.min(cursor ? cursor.before : messages.length, messages.length);
+    const start = Math.max(end - limit, 0);
 
-    res.json(session.messages);
+    const hasMore = start > 0;
+    res.json({
+      success: true,
+      data: await decryptMessages(messages.slice(start, end)),
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore ? encodeCursor({ before: start }) : null,
+      },
+    });
   } catch (error) {
-    logger.error("Error fetching chat history:", error);
-    res.status(500).json({ message: "Error fetching chat history" });
+    next(error);
   }
 };
 
-export const getAllChatSessions = async (req: Request, res: Response) => {
+// Lightweight session list: no message arrays, just a preview of the last one
+export const getAllChatSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
   try {
-    // 1. Authenticate the user. If the user is not authenticated, return a 401.
-    if (!req.user || !req.user.id) {
-      return res.status(401).json({ message: "Unauthorized" });
+    const userId = requireUserId(req);
+
+    const query = validatedQuery<ListSessionsQuery>(req);
+    const { limit, status } = query;
+    const range = dateRangeFilter(query);
+    const cursor = query.cursor as SessionListCursor | undefined;
+
+    const match: Record<string, any> = { userId };
+    if (status) match.status = { $in: status };
+    if (range) match.startTime = range;
+    if (cursor) {
+      const updatedAt = new Date(cursor.updatedAt);
+      if (isNaN(updatedAt.getTime()) || !Types.ObjectId.isValid(cursor.id)) {
+        throw new AppError("Invalid 'cursor'", 400, "INVALID_CURSOR");
+      }
+      const id = new Types.ObjectId(cursor.id);
+      match.$or = [
+        { updatedAt: { $lt: updatedAt } },
+        { updatedAt, _id: { $lt: id } },
+      ];
     }
-    const userId = new Types.ObjectId(req.user.id);
-
-    // 2. Fetch all chat sessions for the authenticated user from the database.
-    const sessions = await ChatSession.find({ userId })
-      .sort({ updatedAt: -1 }) // Sort by most recently updated
-      .select("sessionId topic startTime status createdAt updatedAt messages") // Include topic field
-      .exec();
-
-    // 3. Transform the sessions to include message summaries and topic
-    const transformedSessions = sessions.map((session) => ({
-      sessionId: session.sessionId,
-      topic: session.topic, // This will be the AI-generated topic
-      startTime: session.startTime,
-      status: session.status,
-      createdAt: session.createdAt,
-      updatedAt: session.updatedAt,
-      messages: session.messages, // Include messages for topic generation on frontend
-      messageCount: session.messages.length,
-    }));
 
-    // 4. Send the list of sessions back as a JSON response.
-    res.status(200).json(transformedSessions);
-    logger.info(
-      `Successfully fetched ${sessions.length} sessions for user ${userId}`
+    // Most recently updated first; _id breaks ties so pages never overlap
+    const sessions = await ChatSession.aggregate([
+      { $match: match },
+      { $sort: { updatedAt: -1, _id: -1 } },
+      { $limit: limit + 1 },
+      {
+        $project: {
+          sessionId: 1,
+          topic: 1,
+          topicSource: 1,
+          status: 1,
+          startTime: 1,
+          endTime: 1,
+          closingSummary: 1,
+          createdAt: 1,
+          updatedAt: 1,
+          messageCount: { $size: "$messages" },
+          userMessageCount: {
+            $size: {
+              $filter: { input: "$messages", cond: { $eq: ["$$this.role", "user"] } },
+            },
+          },
+          lastMessage: { $arrayElemAt: ["$messages", -1] },
+        },
+      },
+    ]);
+
+    const hasMore = sessions.length > limit;
+    const page = sessions.slice(0, limit);
+    const data = await Promise.all(
+      page.map(async ({ _id, lastMessage, closingSummary, ...session }) => {
+        const last = lastMessage ? await decryptMessage(lastMessage) : undefined;
+        return {
+          ...session,
+          closingSummary: closingSummary ? await decryptJSON(closingSummary) : undefined,
+          lastMessage: last && {
+            role: last.role,
+            preview:
+              last.content.length > MESSAGE_PREVIEW_LENGTH
+                ? `${last.content.substring(0, MESSAGE_PREVIEW_LENGTH)}...`
+                : last.content,
+            timestamp: last.timestamp,
+          },
+        };
+      })
     );
-  } catch (error) {
-    // 5. Handle any database or server errors.
-    logger.error("Error fetching all chat sessions:", error);
-    res.status(500).json({
-      message: "Internal server error",
-      error: error instanceof Error ? error.message : "Unknown error",
+
+    const lastSession = page[page.length - 1];
+    res.json({
+      success: true,
+      data,
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore
+          ? encodeCursor({
+              updatedAt: lastSession.updatedAt.toISOString(),
+              id: String(lastSession._id),
+            })
+          : null,
+      },
     });
+    logger.info(`Fetched ${page.length} sessions for user ${userId}`);
+  } catch (error) {
+    next(error);
   }
 };
 
-//STOP1
-
-export const deleteChatSession = async (req: Request, res: Response) => {
+// Search message content and topics across the user's sessions
+export const searchChatHistory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
   try {
-    const { sessionId } = req.params;
+    const userId = requireUserId(req);
 
-    // Check authentication
-    if (!req.user || !req.user.id) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-    const userId = new Types.ObjectId(req.user.id);
+    const { q, from, to, role, theme, limit } = validatedQuery<SearchChatQuery>(req);
 
-    logger.info("Deleting chat session:", {
-      sessionId,
-      userId: userId.toString(),
+    const { results, partial } = await searchChatSessions(userId, {
+      query: q,
+      from,
+      to,
+      roles: role,
+      theme: theme || undefined,
+      limit,
     });
 
-    // Find the session first to check ownership
-    const session = await ChatSession.findOne({ sessionId });
+    res.json({ success: true, data: results, partial });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    if (!session) {
-      return res.status(404).json({ error: "Session not found" });
-    }
+//STOP1
 
-    // Check if user owns this session
-    if (session.userId.toString() !== userId.toString()) {
-      return res
-        .status(403)
-        .json({
-          error: "Unauthorized - you can only delete your own sessions",
-        });
+// Move a session through its lifecycle (see SESSION_TRANSITIONS)
+const changeSessionStatus =
+  (action: keyof typeof SESSION_TRANSITIONS) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { sessionId } = req.params;
+      const session = ownedSession(req);
+      const userId = session.userId;
+
+      const { from, to } = SESSION_TRANSITIONS[action];
+      if (!from.includes(session.status)) {
+        throw new AppError(
+          `Cannot ${action} a session that is ${session.status}`,
+          409,
+          "INVALID_SESSION_TRANSITION"
+        );
+      }
+
+      // Conditional update so two concurrent requests cannot both succeed
+      const update: Record<string, unknown> = { status: to };
+      if (action === "complete") update.endTime = new Date();
+      const updated = await ChatSession.findOneAndUpdate(
+        { sessionId, status: session.status },
+        { $set: update },
+        { new: true }
+      );
+      if (!updated) {
+        throw new AppError("Session status changed, please retry", 409);
+      }
+
+      if (action === "complete") {
+        // The closing summary is generated in the background; the session is
+        // already completed either way
+        try {
+          await sendSessionCompletedEvent({ sessionId, userId: userId.toString() });
+        } catch (error) {
+          logger.error("Could not queue closing summary:", { sessionId, error });
+        }
+      }
+
+      logger.info(`Session ${action}d:`, { sessionId, from: session.status, to });
+      res.json({
+        success: true,
+        sessionId,
+        status: updated.status,
+        endTime: updated.endTime,
+      });
+    } catch (error) {
+      next(error);
     }
+  };
 
-    // Delete the session
-    await ChatSession.deleteOne({ sessionId });
+export const completeSession = changeSessionStatus("complete");
+export const pauseSession = changeSessionStatus("pause");
+export const resumeSession = changeSessionStatus("resume");
+export const archiveSession = changeSessionStatus("archive");
 
+export const deleteChatSession = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { sessionId } = req.params;
+    const session = ownedSession(req);
+
+    await ChatSession.deleteOne({ _id: session._id });
     logger.info("Session deleted successfully:", { sessionId });
 
     res.json({
@@ -407,74 +829,27 @@ export const deleteChatSession = async (req: Request, res: Response) => {
       sessionId,
     });
   } catch (error) {
-    logger.error("Error deleting chat session:", error);
-    res.status(500).json({
-      error: "Failed to delete session",
-      details: error instanceof Error ? error.message : "Unknown error",
-    });
+    next(error);
   }
 };
 
-// NEW: Generate topic from messages using Gemini AI
+// NEW: Generate topic from messages using the configured LLM
 export const generateTopic = async (req: Request, res: Response) => {
   try {
     const { messages } = req.body;
 
-    // Validate input
-    if (!messages || !Array.isArray(messages) || messages.length === 0) {
-      return res.status(400).json({
-        error: "Messages array is required and cannot be empty",
-      });
-    }
-
-    // Check authentication
-    if (!req.user || !req.user.id) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-
     logger.info("Generating topic for messages:", {
       messageCount: messages.length,
     });
 
-    // Use Gemini to generate a topic
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash-latest" });
-
-    const topicPrompt = `Based on the following therapy conversation, generate a short, empathetic topic title (maximum 4 words) that captures the main theme or concern being discussed.
-
-Conversation:
-${messages
-  .map(
-    (msg: any, index: number) =>
-      `${msg.role}: ${msg.content.substring(0, 200)}${
-        msg.content.length > 200 ? "..." : ""
-      }`
-  )
-  .join("\n")}
-
-Guidelines:
-- Keep it concise (3-4 words maximum)
-- Use empathetic language
-- Focus on the main emotional theme or concern
-- Suitable for a therapy context
-- Add appropriate emoji if helpful (optional)
-
-Examples of good topics:
-- "💭 Anxiety Management"
-- "😴 Sleep Struggles" 
-- "💼 Work Stress"
-- "💕 Relationship Issues"
-- "🌟 Building Confidence"
-
-Generate only the topic title, nothing else:`;
-
-    const result = await model.generateContent(topicPrompt);
-    let topic = result.response.text().trim();
-
-    // Clean up the response (remove quotes, extra formatting)
-    topic = topic.replace(/['"]/g, "").trim();
-
-    // Fallback if topic is too long or empty
-    if (!topic || topic.length > 50) {
+    let topic = cleanTopic(
+      await getLLMProvider().generateText(buildTopicPrompt(messages), {
+        task: "topic",
+        userId: req.user?.id ? String(req.user.id) : undefined,
+        checkOutput: topicOutcome,
+      })
+    );
+    if (!topic) {
       topic = generateFallbackTopic(messages);
     }
 
@@ -490,55 +865,24 @@ Generate only the topic title, nothing else:`;
       res.json({ topic: fallbackTopic });
     } catch (fallbackError) {
       logger.error("Fallback topic generation failed:", fallbackError);
-      res.status(500).json({
-        error: "Failed to generate topic",
-        topic: "💬 Therapy Session", // Ultimate fallback
-      });
+      res.json({ topic: "💬 Therapy Session" }); // Ultimate fallback
     }
   }
 };
 
 // NEW: Update session topic
-export const updateSessionTopic = async (req: Request, res: Response) => {
+export const updateSessionTopic = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { sessionId } = req.params;
     const { topic } = req.body;
+    const session = ownedSession(req);
 
-    // Validate input
-    if (!topic || typeof topic !== "string" || topic.trim().length === 0) {
-      return res
-        .status(400)
-        .json({ error: "Topic is required and must be a non-empty string" });
-    }
-
-    // Check authentication
-    if (!req.user || !req.user.id) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-    const userId = new Types.ObjectId(req.user.id);
-
-    logger.info("Updating session topic:", { sessionId, topic });
-
-    // Find and update the session
-    const session = await ChatSession.findOne({ sessionId });
-
-    if (!session) {
-      return res.status(404).json({ error: "Session not found" });
-    }
-
-    // Check if user owns this session
-    if (session.userId.toString() !== userId.toString()) {
-      return res.status(403).json({ error: "Unauthorized" });
-    }
-
-    // Update the topic
-    session.topic = topic.trim().substring(0, 100); // Limit topic length
+    // A title the user chose is never auto-replaced
+    session.topic = topic;
+    session.topicSource = "user";
     await session.save();
 
-    logger.info("Session topic updated successfully:", {
-      sessionId,
-      topic: session.topic,
-    });
+    logger.info("Session topic updated successfully:", { sessionId });
 
     res.json({
       success: true,
@@ -546,53 +890,6 @@ export const updateSessionTopic = async (req: Request, res: Response) => {
       message: "Topic updated successfully",
     });
   } catch (error) {
-    logger.error("Error updating session topic:", error);
-    res.status(500).json({
-      error: "Failed to update session topic",
-      details: error instanceof Error ? error.message : "Unknown error",
-    });
+    next(error);
   }
 };
-
-// Helper function for fallback topic generation
-const generateFallbackTopic = (messages: any[]): string => {
-  if (!messages || messages.length === 0) return "💬 New Chat"; // Find first user message
-  const userMessages = messages.filter((msg) => msg.role === "user");
-  if (!userMessages.length) return "💬 New Chat";
-  const firstMessage = userMessages[0].content.toLowerCase(); // Simple keyword matching for therapy topics
-  const topicMap: Record<string, string> = {
-    anxiety: "💭 Anxiety Support",
-    anxious: "💭 Anxiety Support",
-    worried: "💭 Anxiety Support",
-    stress: "😰 Stress Management",
-    stressed: "😰 Stress Management",
-    overwhelmed: "🌊 Feeling Overwhelmed",
-    sleep: "😴 Sleep Issues",
-    insomnia: "😴 Sleep Problems",
-    tired: "😴 Sleep & Energy",
-    depression: "🌧️ Depression Support",
-    depressed: "🌧️ Depression Support",
-    sad: "😢 Emotional Support",
-    work: "💼 Work Issues",
-    job: "💼 Work Stress",
-    relationship: "💕 Relationship Help",
-    partner: "💕 Relationship Issues",
-    family: "👨‍👩‍👧‍👦 Family Matters",
-    panic: "⚡ Panic Support",
-    anger: "😡 Anger Management",
-    angry: "😡 Anger Management",
-    lonely: "🤗 Loneliness Support",
-    confidence: "💪 Building Confidence",
-    "self-esteem": "💪 Self-Worth",
-    grief: "💙 Grief Support",
-    loss: "💙 Coping with Loss",
-  }; // Check for keywords
-  for (const [keyword, topic] of Object.entries(topicMap)) {
-    if (firstMessage.includes(keyword)) {
-      return topic;
-    }
-  } // Generate from first few words
-  const words = firstMessage.split(" ").slice(0, 3).join(" ");
-  const capitalizedWords = words.charAt(0).toUpperCase() + words.slice(1);
-  return `💬 ${capitalizedWords}`;
-};
\ No newline at end of file
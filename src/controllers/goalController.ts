@@ -0,0 +1,163 @@
+import { Request, Response, NextFunction } from "express";
+import { Types } from "mongoose";
+import { Goal } from "../models/Goal";
+import { requireUserId } from "../middleware/auth";
+import { AppError } from "../middleware/errorHandler";
+import { validatedQuery } from "../middleware/validate";
+import { logger } from "../utils/logger";
+import { decryptGoal } from "../utils/secureFields";
+import { CreateGoalBody, ListGoalsQuery, UpdateGoalBody } from "../validation/goals";
+
+// Look up a goal by id, scoped to the current user
+const findOwnedGoal = async (userId: Types.ObjectId, id: string) => {
+  if (!Types.ObjectId.isValid(id)) {
+    throw new AppError("Goal not found", 404, "GOAL_NOT_FOUND");
+  }
+  const goal = await Goal.findOne({ _id: id, userId });
+  if (!goal) {
+    throw new AppError("Goal not found", 404, "GOAL_NOT_FOUND");
+  }
+  return goal;
+};
+
+// List goals (?status, comma separated)
+export const getGoals = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = requireUserId(req);
+
+    const { status } = validatedQuery<ListGoalsQuery>(req);
+    const filter: Record<string, any> = { userId };
+    if (status) filter.status = { $in: status };
+
+    const goals = await Goal.find(filter).sort({ updatedAt: -1 });
+    res.json({ success: true, data: await Promise.all(goals.map(decryptGoal)) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get a single goal with its progress notes
+export const getGoal = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = requireUserId(req);
+
+    const goal = await findOwnedGoal(userId, req.params.id);
+    res.json({ success: true, data: await decryptGoal(goal) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Create a goal
+export const createGoal = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = requireUserId(req);
+
+    const { title, description, targetDate } = req.body as CreateGoalBody;
+
+    const goal = await Goal.create({
+      userId,
+      title,
+      description,
+      targetDate,
+      status: "active",
+      source: "user",
+    });
+    logger.info(`Goal ${goal._id} created for user ${userId}`);
+
+    res.status(201).json({ success: true, data: await decryptGoal(goal) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Update a goal's details or status
+export const updateGoal = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = requireUserId(req);
+
+    const goal = await findOwnedGoal(userId, req.params.id);
+    const { title, description, targetDate, status } = req.body as UpdateGoalBody;
+
+    if (title !== undefined) goal.title = title;
+    if (description !== undefined) goal.description = description;
+    if (targetDate !== undefined) goal.set("targetDate", targetDate);
+    if (status !== undefined) {
+      goal.status = status;
+      goal.completedAt = status === "completed" ? new Date() : undefined;
+    }
+
+    await goal.save();
+    res.json({ success: true, data: await decryptGoal(goal) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Delete a goal
+export const deleteGoal = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = requireUserId(req);
+
+    const goal = await findOwnedGoal(userId, req.params.id);
+    await goal.deleteOne();
+    logger.info(`Goal ${goal._id} deleted for user ${userId}`);
+
+    res.json({ success: true, message: "Goal deleted successfully" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Answer a goal the assistant proposed
+const respondToProposal =
+  (status: "active" | "declined") =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = requireUserId(req);
+
+      const goal = await findOwnedGoal(userId, req.params.id);
+      if (goal.status !== "proposed") {
+        throw new AppError("Only proposed goals can be accepted or declined", 409);
+      }
+
+      goal.status = status;
+      await goal.save();
+      logger.info(`Proposed goal ${goal._id} ${status} by user ${userId}`);
+
+      res.json({ success: true, data: await decryptGoal(goal) });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+// Accept a proposed goal, making it active
+export const acceptGoal = respondToProposal("active");
+
+// Decline a proposed goal
+export const declineGoal = respondToProposal("declined");
+
+// Add a progress note by hand
+export const addProgressNote = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    const { note } = req.body;
+
+    const goal = await findOwnedGoal(userId, req.params.id);
+    goal.progressNotes.push({
+      note,
+      indicators: [],
+      createdAt: new Date(),
+    });
+    await goal.save();
+
+    res.status(201).json({ success: true, data: await decryptGoal(goal) });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,162 @@
+import { Request, Response, NextFunction } from "express";
+import { Types } from "mongoose";
+import { ITherapyMemory, TherapyMemory } from "../models/TherapyMemory";
+import { requireUserId } from "../middleware/auth";
+import { AppError } from "../middleware/errorHandler";
+import { logger } from "../utils/logger";
+import { getOrCreateTherapyMemory } from "../utils/therapyMemory";
+import { decryptTherapyMemory } from "../utils/secureFields";
+import { UpdateMemoryPreferencesBody } from "../validation/memory";
+
+const serializeMemory = async (stored: ITherapyMemory) => {
+  const memory = await decryptTherapyMemory(stored);
+  return {
+    recurringThemes: memory.recurringThemes,
+    emotionalStates: memory.emotionalStates,
+    preferences: Object.fromEntries(memory.preferences || []),
+    lifeFacts: memory.lifeFacts,
+    updatedAt: memory.updatedAt,
+  };
+};
+
+// Get everything the assistant remembers about the current user
+export const getMemory = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = requireUserId(req);
+
+    const memory = await getOrCreateTherapyMemory(userId);
+    res.json({ success: true, data: await serializeMemory(memory) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Merge preferences; a null value removes that preference
+export const updateMemoryPreferences = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    const { preferences } = req.body as UpdateMemoryPreferencesBody;
+
+    const memory = await getOrCreateTherapyMemory(userId);
+    for (const [key, value] of Object.entries(preferences)) {
+      if (value === null) {
+        memory.preferences.delete(key);
+      } else {
+        memory.preferences.set(key, value);
+      }
+    }
+    await memory.save();
+
+    res.json({ success: true, data: await serializeMemory(memory) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Add a fact the user wants remembered
+export const addMemoryFact = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = requireUserId(req);
+
+    const { fact } = req.body;
+
+    const memory = await getOrCreateTherapyMemory(userId);
+    memory.lifeFacts.push({ fact, createdAt: new Date() });
+    await memory.save();
+
+    res.status(201).json({ success: true, data: await serializeMemory(memory) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+const findFact = (memory: any, factId: string) => {
+  const fact = Types.ObjectId.isValid(factId)
+    ? memory.lifeFacts.find((f: any) => f._id?.toString() === factId)
+    : undefined;
+  if (!fact) {
+    throw new AppError("Fact not found", 404, "FACT_NOT_FOUND");
+  }
+  return fact;
+};
+
+// Correct a remembered fact
+export const updateMemoryFact = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    const { fact } = req.body;
+
+    const memory = await getOrCreateTherapyMemory(userId);
+    findFact(memory, req.params.factId).fact = fact;
+    await memory.save();
+
+    res.json({ success: true, data: await serializeMemory(memory) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Forget a single fact
+export const deleteMemoryFact = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    const memory = await getOrCreateTherapyMemory(userId);
+    const fact = findFact(memory, req.params.factId);
+    memory.lifeFacts = memory.lifeFacts.filter((f) => f !== fact);
+    await memory.save();
+
+    res.json({ success: true, data: await serializeMemory(memory) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Forget a recurring theme
+export const deleteMemoryTheme = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    const memory = await getOrCreateTherapyMemory(userId);
+    memory.recurringThemes = memory.recurringThemes.filter(
+      (t) => t.theme !== req.params.theme
+    );
+    await memory.save();
+
+    res.json({ success: true, data: await serializeMemory(memory) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Erase the user's memory entirely
+export const deleteMemory = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = requireUserId(req);
+
+    await TherapyMemory.deleteOne({ userId });
+    logger.info(`Therapy memory deleted for user ${userId}`);
+
+    res.json({ success: true, message: "Memory deleted successfully" });
+  } catch (error) {
+    next(error);
+  }
+};
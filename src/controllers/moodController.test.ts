@@ -0,0 +1,110 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { Mood } from "../models/Mood";
+import { getMoodStats, getMoodStreaks } from "./moodController";
+
+const userId = new Types.ObjectId();
+
+const call = async (
+  handler: typeof getMoodStats,
+  query: Record<string, unknown>
+) => {
+  const res = { json: jest.fn(), status: jest.fn() };
+  res.status.mockReturnValue(res);
+  const next = jest.fn();
+  await handler(
+    { user: { _id: userId }, query } as unknown as Request,
+    res as unknown as Response,
+    next
+  );
+  expect(next).not.toHaveBeenCalled();
+  return res.json.mock.calls[0][0].data;
+};
+
+describe("getMoodStreaks", () => {
+  const days = (...ids: string[]) =>
+    jest.spyOn(Mood, "aggregate").mockResolvedValue(ids.map((_id) => ({ _id })));
+
+  beforeEach(() => jest.useFakeTimers({ now: new Date("2024-03-10T09:00:00Z") }));
+  afterEach(() => jest.useRealTimers());
+
+  it("counts the current and longest runs of consecutive days", async () => {
+    days("2024-03-01", "2024-03-02", "2024-03-03", "2024-03-05", "2024-03-09", "2024-03-10");
+
+    expect(await call(getMoodStreaks, { tz: "UTC" })).toEqual({
+      current: 2,
+      longest: 3,
+      lastEntryDate: "2024-03-10",
+      totalDays: 6,
+    });
+  });
+
+  it("keeps the current streak until a whole day has been missed", async () => {
+    days("2024-03-08", "2024-03-09");
+    expect((await call(getMoodStreaks, { tz: "UTC" })).current).toBe(2);
+  });
+
+  it("resets the current streak after a missed day", async () => {
+    days("2024-03-07", "2024-03-08");
+    expect((await call(getMoodStreaks, { tz: "UTC" })).current).toBe(0);
+  });
+
+  it("works out today in the user's timezone", async () => {
+    // 09:00 UTC on the 10th is still the 9th in Honolulu
+    const aggregate = jest.spyOn(Mood, "aggregate").mockResolvedValue([{ _id: "2024-03-08" }]);
+
+    const streaks = await call(getMoodStreaks, { tz: "Pacific/Honolulu" });
+
+    expect(streaks.current).toBe(1);
+    expect(JSON.stringify(aggregate.mock.calls[0][0])).toContain("Pacific/Honolulu");
+  });
+
+  it("handles users with no entries", async () => {
+    days();
+    expect(await call(getMoodStreaks, { tz: "UTC" })).toEqual({
+      current: 0,
+      longest: 0,
+      lastEntryDate: null,
+      totalDays: 0,
+    });
+  });
+});
+
+describe("getMoodStats", () => {
+  it("buckets by week starting on Monday and rounds the figures", async () => {
+    const aggregate = jest
+      .spyOn(Mood, "aggregate")
+      .mockResolvedValueOnce([
+        { _id: new Date("2024-03-04"), mean: 61.666666, min: 40, max: 80, volatility: 16.99673, count: 3 },
+      ])
+      .mockResolvedValueOnce([{ _id: null, mean: 61.666666, min: 40, max: 80, volatility: 16.99673, count: 3 }]);
+
+    const stats = await call(getMoodStats, { period: "week", tz: "Europe/Berlin" });
+
+    expect(aggregate.mock.calls[0][0]).toContainEqual({
+      $group: expect.objectContaining({
+        _id: {
+          $dateTrunc: expect.objectContaining({
+            unit: "week",
+            timezone: "Europe/Berlin",
+            startOfWeek: "monday",
+          }),
+        },
+      }),
+    });
+    expect(stats).toMatchObject({
+      period: "week",
+      timezone: "Europe/Berlin",
+      overall: { mean: 61.67, min: 40, max: 80, volatility: 17, count: 3 },
+      buckets: [{ start: new Date("2024-03-04"), mean: 61.67, count: 3 }],
+    });
+  });
+
+  it("reports no overall figures without entries", async () => {
+    jest.spyOn(Mood, "aggregate").mockResolvedValue([]);
+
+    const stats = await call(getMoodStats, { period: "day", tz: "UTC" });
+
+    expect(stats).toMatchObject({ period: "day", overall: null, buckets: [] });
+  });
+});
@@ -1,7 +1,19 @@
 import { Request, Response, NextFunction } from "express";
+import { requireUserId } from "../middleware/auth";
+import { validatedQuery } from "../middleware/validate";
 import { Mood } from "../models/Mood";
+import { Activity } from "../models/Activity";
+import { decryptMood } from "../utils/secureFields";
 import { logger } from "../utils/logger";
 import { sendMoodUpdateEvent } from "../utils/inngestEvents";
+import { dateRangeFilter } from "../utils/queryParams";
+import {
+  CreateMoodBody,
+  MoodCorrelationsQuery,
+  MoodHistoryQuery,
+  MoodStatsQuery,
+  MoodStreaksQuery,
+} from "../validation/mood";
 
 // Create a new mood entry
 export const createMood = async (
@@ -10,19 +22,13 @@ export const createMood = async (
   next: NextFunction
 ) => {
   try {
-    const { score, note, context, activities } = req.body;
-    const userId = req.user?._id; // From auth middleware
-
-    if (!userId) {
-      return res.status(401).json({ message: "User not authenticated" });
-    }
+    const { score, note } = req.body as CreateMoodBody;
+    const userId = requireUserId(req);
 
     const mood = new Mood({
       userId,
       score,
       note,
-      context,
-      activities,
       timestamp: new Date(),
     });
 
@@ -30,20 +36,262 @@ export const createMood = async (
     logger.info(`Mood entry created for user ${userId}`);
 
     // Send mood update event to Inngest
-    await sendMoodUpdateEvent({
-      userId,
-      mood: score,
-      note,
-      context,
-      activities,
-      timestamp: mood.timestamp,
-    });
+    await sendMoodUpdateEvent({ userId: String(userId), moodId: String(mood._id) });
 
     res.status(201).json({
       success: true,
-      data: mood,
+      data: await decryptMood(mood),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Turn the validated ?from=&to= range into a timestamp filter
+const buildMatch = (userId: any, query: { from?: Date; to?: Date }) => {
+  const range = dateRangeFilter(query);
+  return range ? { userId, timestamp: range } : { userId };
+};
+
+const round = (value: number | null | undefined) =>
+  value === null || value === undefined ? null : Math.round(value * 100) / 100;
+
+// Get paginated mood history
+export const getMoodHistory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    const query = validatedQuery<MoodHistoryQuery>(req);
+    const { page, limit } = query;
+    const match = buildMatch(userId, query);
+
+    const [moods, total] = await Promise.all([
+      Mood.find(match)
+        .sort({ timestamp: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Mood.countDocuments(match),
+    ]);
+
+    res.json({
+      success: true,
+      data: await Promise.all(moods.map(decryptMood)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get daily or weekly mood aggregates
+export const getMoodStats = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    const query = validatedQuery<MoodStatsQuery>(req);
+    const { period, tz: timezone } = query;
+    const match = buildMatch(userId, query);
+
+    const buckets = await Mood.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: {
+            $dateTrunc: {
+              date: "$timestamp",
+              unit: period,
+              timezone,
+              ...(period === "week" ? { startOfWeek: "monday" } : {}),
+            },
+          },
+          mean: { $avg: "$score" },
+          min: { $min: "$score" },
+          max: { $max: "$score" },
+          volatility: { $stdDevPop: "$score" },
+          count: { $sum: 1 },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ]);
+
+    const [overall] = await Mood.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: null,
+          mean: { $avg: "$score" },
+          min: { $min: "$score" },
+          max: { $max: "$score" },
+          volatility: { $stdDevPop: "$score" },
+          count: { $sum: 1 },
+        },
+      },
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        period,
+        timezone,
+        overall: overall
+          ? {
+              mean: round(overall.mean),
+              min: overall.min,
+              max: overall.max,
+              volatility: round(overall.volatility),
+              count: overall.count,
+            }
+          : null,
+        buckets: buckets.map((bucket) => ({
+          start: bucket._id,
+          mean: round(bucket.mean),
+          min: bucket.min,
+          max: bucket.max,
+          volatility: round(bucket.volatility),
+          count: bucket.count,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get current and longest streaks of days with at least one mood entry
+export const getMoodStreaks = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    const { tz: timezone } = validatedQuery<MoodStreaksQuery>(req);
+    const days: { _id: string }[] = await Mood.aggregate([
+      { $match: { userId } },
+      {
+        $group: {
+          _id: {
+            $dateToString: { format: "%Y-%m-%d", date: "$timestamp", timezone },
+          },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ]);
+
+    // Day strings are compared as UTC midnights so DST never skews the gap
+    const dayValues = days.map((day) => Date.parse(`${day._id}T00:00:00Z`));
+    let longest = 0;
+    let run = 0;
+    for (let i = 0; i < dayValues.length; i++) {
+      run = i > 0 && dayValues[i] - dayValues[i - 1] === DAY_MS ? run + 1 : 1;
+      longest = Math.max(longest, run);
+    }
+
+    // The current streak survives until a full day has been missed
+    const today = Date.parse(
+      `${new Date().toLocaleDateString("en-CA", { timeZone: timezone })}T00:00:00Z`
+    );
+    const lastDay = dayValues[dayValues.length - 1];
+    const current = lastDay !== undefined && today - lastDay <= DAY_MS ? run : 0;
+
+    res.json({
+      success: true,
+      data: {
+        current,
+        longest,
+        lastEntryDate: days.length ? days[days.length - 1]._id : null,
+        totalDays: days.length,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Compare mood on days each activity type was logged against days it wasn't
+export const getMoodActivityCorrelations = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    const query = validatedQuery<MoodCorrelationsQuery>(req);
+    const { tz: timezone } = query;
+    const match = buildMatch(userId, query);
+    const dayKey = {
+      $dateToString: { format: "%Y-%m-%d", date: "$timestamp", timezone },
+    };
+
+    const [moodDays, activityDays] = await Promise.all([
+      Mood.aggregate([
+        { $match: match },
+        { $group: { _id: dayKey, mean: { $avg: "$score" } } },
+      ]),
+      Activity.aggregate([
+        { $match: match },
+        { $group: { _id: dayKey, types: { $addToSet: "$type" } } },
+      ]),
+    ]);
+
+    const typesByDay = new Map<string, string[]>(
+      activityDays.map((day) => [day._id, day.types])
+    );
+    const allTypes = new Set<string>(activityDays.flatMap((day) => day.types));
+
+    const average = (values: number[]) =>
+      values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+    const correlations = [...allTypes].map((type) => {
+      const withActivity: number[] = [];
+      const withoutActivity: number[] = [];
+      for (const day of moodDays) {
+        (typesByDay.get(day._id)?.includes(type) ? withActivity : withoutActivity).push(
+          day.mean
+        );
+      }
+      const meanWith = average(withActivity);
+      const meanWithout = average(withoutActivity);
+      return {
+        type,
+        daysWithActivity: withActivity.length,
+        daysWithoutActivity: withoutActivity.length,
+        meanMoodWithActivity: round(meanWith),
+        meanMoodWithoutActivity: round(meanWithout),
+        difference:
+          meanWith !== null && meanWithout !== null
+            ? round(meanWith - meanWithout)
+            : null,
+      };
+    });
+
+    correlations.sort((a, b) => (b.difference ?? -Infinity) - (a.difference ?? -Infinity));
+
+    res.json({
+      success: true,
+      data: {
+        daysWithMood: moodDays.length,
+        correlations,
+      },
     });
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
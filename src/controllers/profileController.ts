@@ -0,0 +1,270 @@
+import { Request, Response, NextFunction } from "express";
+import bcrypt from "bcryptjs";
+import { Types } from "mongoose";
+import { User, IUser } from "../models/User";
+import { Session } from "../models/Session";
+import { logger } from "../utils/logger";
+import { AppError } from "../middleware/errorHandler";
+import { createActionToken } from "../utils/tokens";
+import { sendMail, verificationEmail } from "../mail";
+import { AuditLog } from "../models/AuditLog";
+import { buildMarkdownArchive, collectUserData } from "../utils/accountData";
+import {
+  sendAccountDeletionCancelledEvent,
+  sendAccountDeletionRequestedEvent,
+} from "../utils/inngestEvents";
+import { UpdatePreferencesBody, UpdateProfileBody } from "../validation/auth";
+import { getDailyUsage, nextUsageReset, usageDay } from "../rateLimit/quota";
+
+const DELETION_GRACE_DAYS = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS) || 30;
+
+// The only user fields a client ever sees
+export const serializeUser = (user: IUser) => ({
+  _id: user._id,
+  name: user.name,
+  email: user.email,
+  emailVerified: user.emailVerified,
+  preferences: user.preferences,
+  deletionScheduledFor: user.deletionScheduledFor,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+// get the signed-in user's profile
+export const getProfile = async (req: Request, res: Response) => {
+  res.json({ user: serializeUser(req.user) });
+};
+
+// update name, email or password. Email and password changes need the
+// current password again.
+export const updateProfile = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { name, email, password, currentPassword } = req.body as UpdateProfileBody;
+    const user = await User.findById(req.user._id);
+    if (!user) {
+      throw new AppError("User not found.", 404, "USER_NOT_FOUND");
+    }
+
+    if (name !== undefined) {
+      user.name = name;
+    }
+
+    const emailChanged = email !== undefined && email !== user.email;
+    if (emailChanged || password !== undefined) {
+      if (
+        !currentPassword ||
+        !(await bcrypt.compare(currentPassword, user.password))
+      ) {
+        throw new AppError("Current password is incorrect.", 401, "INVALID_CREDENTIALS");
+      }
+    }
+
+    if (emailChanged) {
+      if (await User.exists({ email, _id: { $ne: user._id } })) {
+        throw new AppError("Email already in use.", 409, "EMAIL_IN_USE");
+      }
+      user.email = email;
+      user.emailVerified = false;
+      user.emailVerifiedAt = undefined;
+    }
+
+    if (password !== undefined) {
+      user.password = await bcrypt.hash(password, 10);
+    }
+
+    await user.save();
+
+    if (emailChanged) {
+      const token = await createActionToken(
+        user._id as Types.ObjectId,
+        user.email,
+        "email_verification"
+      );
+      await sendMail(verificationEmail(user.email, user.name, token));
+    }
+
+    // Keep this device signed in but end every other session
+    if (password !== undefined) {
+      await Session.deleteMany({
+        userId: user._id,
+        _id: { $ne: req.authSession?._id },
+      });
+      logger.info(`Password changed for user ${user._id}`);
+    }
+
+    res.json({ user: serializeUser(user), message: "Profile updated" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// get the signed-in user's preferences
+export const getPreferences = async (req: Request, res: Response) => {
+  res.json({ preferences: req.user.preferences });
+};
+
+// Today's model usage against the daily quotas
+export const getUsage = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({
+      day: usageDay(),
+      resetsAt: nextUsageReset(),
+      models: await getDailyUsage(req.user._id),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// update one or more preferences
+export const updatePreferences = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { timezone, therapeuticStyle, responseLength, language, reminders } =
+      req.body as UpdatePreferencesBody;
+    const user = await User.findById(req.user._id);
+    if (!user) {
+      throw new AppError("User not found.", 404, "USER_NOT_FOUND");
+    }
+
+    if (timezone !== undefined) user.preferences.timezone = timezone;
+    if (therapeuticStyle !== undefined) user.preferences.therapeuticStyle = therapeuticStyle;
+    if (responseLength !== undefined) user.preferences.responseLength = responseLength;
+    // null goes back to following the browser's language
+    if (language !== undefined) user.preferences.language = language ?? undefined;
+    if (reminders !== undefined) {
+      if (reminders.enabled !== undefined) {
+        user.preferences.reminders.enabled = reminders.enabled;
+      }
+      if (reminders.time !== undefined) {
+        user.preferences.reminders.time = reminders.time;
+      }
+      if (reminders.days !== undefined) {
+        user.preferences.reminders.days = [...new Set(reminders.days)].sort();
+      }
+    }
+
+    await user.save();
+    res.json({ preferences: user.preferences, message: "Preferences updated" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// download everything we store about the user (?format=json|zip)
+export const exportData = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const format = req.query.format === "zip" ? "zip" : "json";
+    const data = await collectUserData(req.user._id);
+
+    await AuditLog.create({
+      userId: req.user._id,
+      action: "account.exported",
+      details: { format },
+      ipAddress: req.ip,
+    });
+
+    const filename = `therapy-data-${new Date().toISOString().substring(0, 10)}`;
+    if (format === "zip") {
+      const archive = await buildMarkdownArchive(data);
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.zip"`);
+      return res.send(archive);
+    }
+
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}.json"`);
+    res.json(data);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// schedule the account for deletion after a grace period
+export const requestAccountDeletion = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { password } = req.body;
+    const user = await User.findById(req.user._id);
+    if (!user) {
+      throw new AppError("User not found.", 404, "USER_NOT_FOUND");
+    }
+    if (!(await bcrypt.compare(password, user.password))) {
+      throw new AppError("Password is incorrect.", 401, "INVALID_CREDENTIALS");
+    }
+    if (user.deletionScheduledFor) {
+      throw new AppError(
+        `Account deletion is already scheduled for ${user.deletionScheduledFor.toISOString()}.`,
+        409
+      );
+    }
+
+    const scheduledFor = new Date();
+    scheduledFor.setDate(scheduledFor.getDate() + DELETION_GRACE_DAYS);
+    user.deletionRequestedAt = new Date();
+    user.deletionScheduledFor = scheduledFor;
+    await user.save();
+
+    try {
+      await sendAccountDeletionRequestedEvent({
+        userId: String(user._id),
+        scheduledFor,
+      });
+    } catch (error) {
+      // Without the scheduled job nothing would ever be deleted
+      user.deletionRequestedAt = undefined;
+      user.deletionScheduledFor = undefined;
+      await user.save();
+      throw new AppError("Could not schedule account deletion. Please try again.", 503);
+    }
+    await AuditLog.create({
+      userId: user._id,
+      action: "account.deletion_requested",
+      details: { scheduledFor },
+      ipAddress: req.ip,
+    });
+
+    // Other devices are signed out; this one stays so the user can cancel
+    await Session.deleteMany({
+      userId: user._id,
+      _id: { $ne: req.authSession?._id },
+    });
+    logger.info(`Account deletion scheduled for user ${user._id}`);
+
+    res.status(202).json({
+      message: `Your account and all its data will be deleted on ${scheduledFor.toISOString()}. Log in and cancel before then to keep it.`,
+      deletionScheduledFor: scheduledFor,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// keep the account after all
+export const cancelAccountDeletion = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await User.findById(req.user._id);
+    if (!user) {
+      throw new AppError("User not found.", 404, "USER_NOT_FOUND");
+    }
+    if (!user.deletionScheduledFor) {
+      throw new AppError("No account deletion is scheduled.", 409);
+    }
+
+    user.deletionRequestedAt = undefined;
+    user.deletionScheduledFor = undefined;
+    await user.save();
+
+    try {
+      await sendAccountDeletionCancelledEvent(String(user._id));
+    } catch (error) {
+      // The deletion job re-checks the user before erasing anything
+    }
+    await AuditLog.create({
+      userId: user._id,
+      action: "account.deletion_cancelled",
+      ipAddress: req.ip,
+    });
+
+    res.json({ message: "Account deletion cancelled", user: serializeUser(user) });
+  } catch (error) {
+    next(error);
+  }
+};
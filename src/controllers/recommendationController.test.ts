@@ -0,0 +1,92 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { Recommendation } from "../models/Recommendation";
+import { acceptRecommendation, dismissRecommendation } from "./recommendationController";
+
+const userId = new Types.ObjectId();
+
+const buildRecommendation = (status: string) =>
+  new Recommendation({
+    userId,
+    activity: "Five-minute breathing exercise",
+    type: "meditation",
+    reasoning: "Slow breathing helps regulate stress.",
+    status,
+  });
+
+const call = async (
+  handler: typeof acceptRecommendation,
+  id: unknown,
+  body = {},
+  user: unknown = { _id: userId }
+) => {
+  const res = { json: jest.fn(), status: jest.fn() };
+  res.status.mockReturnValue(res);
+  const next = jest.fn();
+  await handler(
+    { user, params: { id: String(id) }, body } as unknown as Request,
+    res as unknown as Response,
+    next
+  );
+  return { body: res.json.mock.calls[0]?.[0], error: next.mock.calls[0]?.[0] };
+};
+
+describe("respondToRecommendation", () => {
+  it("records the response to a pending recommendation", async () => {
+    const recommendation = buildRecommendation("pending");
+    jest.spyOn(Recommendation, "findOne").mockResolvedValue(recommendation);
+    const update = jest
+      .spyOn(Recommendation, "findOneAndUpdate")
+      .mockResolvedValue(buildRecommendation("dismissed"));
+
+    const { body, error } = await call(dismissRecommendation, recommendation._id, {
+      reason: "not for me",
+    });
+
+    expect(error).toBeUndefined();
+    expect(body.data.status).toBe("dismissed");
+    expect(update).toHaveBeenCalledWith(
+      { _id: recommendation._id, status: "pending" },
+      { $set: expect.objectContaining({ status: "dismissed", feedback: "not for me" }) },
+      { new: true }
+    );
+  });
+
+  it.each(["accepted", "dismissed", "superseded"])(
+    "refuses to change a recommendation that is %s",
+    async (status) => {
+      const recommendation = buildRecommendation(status);
+      jest.spyOn(Recommendation, "findOne").mockResolvedValue(recommendation);
+      const update = jest.spyOn(Recommendation, "findOneAndUpdate");
+
+      const { error } = await call(acceptRecommendation, recommendation._id);
+
+      expect(error).toMatchObject({ statusCode: 409, code: "RECOMMENDATION_NOT_PENDING" });
+      expect(update).not.toHaveBeenCalled();
+    }
+  );
+
+  it("loses a race with a concurrent response", async () => {
+    const recommendation = buildRecommendation("pending");
+    jest.spyOn(Recommendation, "findOne").mockResolvedValue(recommendation);
+    jest.spyOn(Recommendation, "findOneAndUpdate").mockResolvedValue(null);
+
+    const { error } = await call(acceptRecommendation, recommendation._id);
+
+    expect(error).toMatchObject({ statusCode: 409, code: "RECOMMENDATION_NOT_PENDING" });
+  });
+
+  it("reports an unknown recommendation with a specific code", async () => {
+    jest.spyOn(Recommendation, "findOne").mockResolvedValue(null);
+
+    const { error } = await call(acceptRecommendation, new Types.ObjectId());
+
+    expect(error).toMatchObject({ statusCode: 404, code: "RECOMMENDATION_NOT_FOUND" });
+  });
+
+  it("requires an authenticated user", async () => {
+    const { error } = await call(acceptRecommendation, new Types.ObjectId(), {}, null);
+
+    expect(error).toMatchObject({ statusCode: 401, code: "UNAUTHENTICATED" });
+  });
+});
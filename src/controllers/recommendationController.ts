@@ -0,0 +1,91 @@
+import { Request, Response, NextFunction } from "express";
+import { Types } from "mongoose";
+import { Recommendation } from "../models/Recommendation";
+import { requireUserId } from "../middleware/auth";
+import { AppError } from "../middleware/errorHandler";
+import { validatedQuery } from "../middleware/validate";
+import { logger } from "../utils/logger";
+import { RecommendationsQuery } from "../validation/activity";
+
+// Get recommendations for the current user (?status, defaults to pending)
+export const getRecommendations = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = requireUserId(req);
+
+    const { status } = validatedQuery<RecommendationsQuery>(req);
+
+    const recommendations = await Recommendation.find({
+      userId,
+      ...(status === "all" ? {} : { status }),
+    })
+      .sort({ createdAt: -1 })
+      .limit(50);
+
+    res.json({ success: true, data: recommendations });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Accepted and dismissed recommendations are fed into the next generation
+const respondToRecommendation =
+  (status: "accepted" | "dismissed") =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = requireUserId(req);
+
+      if (!Types.ObjectId.isValid(req.params.id)) {
+        throw new AppError("Recommendation not found", 404, "RECOMMENDATION_NOT_FOUND");
+      }
+      const recommendation = await Recommendation.findOne({
+        _id: req.params.id,
+        userId,
+      });
+      if (!recommendation) {
+        throw new AppError("Recommendation not found", 404, "RECOMMENDATION_NOT_FOUND");
+      }
+
+      // A response is final, and superseded recommendations can no longer be answered
+      if (recommendation.status !== "pending") {
+        throw new AppError(
+          `Recommendation is already ${recommendation.status}`,
+          409,
+          "RECOMMENDATION_NOT_PENDING"
+        );
+      }
+
+      // Conditional update so an accept and a dismiss cannot both succeed
+      const update: Record<string, unknown> = { status, respondedAt: new Date() };
+      if (status === "dismissed" && req.body?.reason) {
+        update.feedback = req.body.reason;
+      }
+      const updated = await Recommendation.findOneAndUpdate(
+        { _id: recommendation._id, status: "pending" },
+        { $set: update },
+        { new: true }
+      );
+      if (!updated) {
+        throw new AppError(
+          "Recommendation was answered meanwhile",
+          409,
+          "RECOMMENDATION_NOT_PENDING"
+        );
+      }
+
+      logger.info(`Recommendation ${updated._id} ${status} by user ${userId}`);
+
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+// Accept a recommendation
+export const acceptRecommendation = respondToRecommendation("accepted");
+
+// Dismiss a recommendation, optionally with a reason
+export const dismissRecommendation = respondToRecommendation("dismissed");
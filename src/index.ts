@@ -9,6 +9,7 @@ import { inngest } from "./inngest";
 import {functions as inngestFunctions} from "./inngest/functions";
 import { logger } from "./utils/logger";
 import { connectDB } from "./utils/db";
+import { getLLMProvider } from "./llm";
 
 import cors from "cors";
 import helmet from "helmet";
@@ -18,6 +19,9 @@ import { errorHandler } from "./middleware/errorHandler";
 import chatRouter from "./routes/chat";
 import moodRouter from "./routes/mood";
 import activityRouter from "./routes/activity";
+import memoryRouter from "./routes/memory";
+import goalRouter from "./routes/goals";
+import adminRouter from "./routes/admin";
 
 
 
@@ -28,6 +32,11 @@ import activityRouter from "./routes/activity";
 
 const app = express();
 
+// Per-IP rate limits need the client address when behind a proxy, e.g. TRUST_PROXY=1
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", Number(process.env.TRUST_PROXY) || process.env.TRUST_PROXY);
+}
+
 //middleware
 app.use(cors());
 app.use(helmet());
@@ -45,6 +54,9 @@ app.use("/auth", authRoutes);
 app.use("/chat", chatRouter);
 app.use("/api/mood", moodRouter);
 app.use("/api/activity", activityRouter);
+app.use("/api/memory", memoryRouter);
+app.use("/api/goals", goalRouter);
+app.use("/api/admin", adminRouter);
 
 // error handling
 app.use(errorHandler);
@@ -55,6 +67,8 @@ const startServer = async () => {
     try {
   // connect to database
    await connectDB();
+  // Fail now rather than on the first message if no model is configured
+  getLLMProvider();
   const PORT = process.env.PORT || 3001;
   app.listen(PORT, () => {
   logger.info(`Server is running on port ${PORT}`);
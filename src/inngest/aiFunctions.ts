@@ -1,177 +1,142 @@
 import { inngest } from "./index";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { logger } from "../utils/logger";
-import { GoogleGenAI } from "@google/genai";
-
-
-//initialize gemini ai
-// const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
- 
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-if (!GEMINI_API_KEY) {
-  throw new Error('GEMINI_API_KEY environment variable is not defined');
-}
-
-const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-
-
-
-
-// Function to handle chat message processing
+import { StructuredOutputError, generateStructured } from "../llm/structured";
+import {
+  recommendationsSchema,
+  sessionAnalysisSchema,
+  sessionSummarySchema,
+} from "../llm/schemas";
+import {
+  analyzeMessage,
+  loadAnalyzedMessage,
+  loadMessageText,
+  storeMessageAnalysis,
+} from "../utils/messageAnalysis";
+import { RISK_THRESHOLD, getCrisisResources, recordRiskEvent } from "../safety";
+import { Mood } from "../models/Mood";
+import { Activity } from "../models/Activity";
+import { ActivityType, DEFAULT_ACTIVITY_TYPES } from "../models/ActivityType";
+import { Recommendation } from "../models/Recommendation";
+import { normalizeRecommendations } from "../utils/recommendations";
+import { loadTherapyMemory, recordExchange, toAgentMemory } from "../utils/therapyMemory";
+import { getActiveGoals, reviewGoals } from "../utils/goals";
+import { decryptMessages, decryptMood } from "../utils/secureFields";
+import { decryptString, encryptString } from "../utils/encryption";
+import { ChatSession } from "../models/chat";
+import { formatTranscript } from "../utils/conversation";
+import { generateTopicTitle, reviewTopic } from "../utils/topics";
+
+// Analyze a chat message in the background and store the result on the
+// reply it belongs to; this is the only place message analysis runs
 export const processChatMessage = inngest.createFunction(
   {
     id: "process-chat-message",
+    // Clients polling for the analysis need to learn that it won't arrive
+    onFailure: async ({ event, error }) => {
+      const { sessionId, userId, messageId, replyId } = event.data.event.data;
+      logger.error("Message analysis failed:", { sessionId, messageId, error });
+      await storeMessageAnalysis({
+        sessionId,
+        userId,
+        messageId: replyId || messageId,
+        status: "failed",
+      });
+    },
   },
   { event: "therapy/session.message" },
   async ({ event, step }) => {
-    try {
-      const {
-        message,
-        history,
-        memory = {
-          userProfile: {
-            emotionalState: [],
-            riskLevel: 0,
-            preferences: {},
-          },
-          sessionContext: {
-            conversationThemes: [],
-            currentTechnique: null,
-          },
-        },
-        goals = [],
-        systemPrompt,
-      } = event.data;
-
-      logger.info("Processing chat message:", {
-        message,
-        historyLength: history?.length,
+    const { sessionId, userId, messageId, replyId, locale } = event.data;
+
+    // Inngest keeps every step's output, so the message and its analysis
+    // are decrypted (or stored encrypted) inside the steps that use them
+    // and only the risk level is passed between steps
+    const analyzed = await step.run("analyze-message", async () => {
+      const message = await loadMessageText(sessionId, messageId);
+      if (message === null) return null;
+
+      const [memory, goals] = await Promise.all([
+        loadTherapyMemory(userId),
+        getActiveGoals(userId),
+      ]);
+      const analysis = await analyzeMessage(message, {
+        context: { memory: toAgentMemory(memory), goals: goals.map((goal) => goal.title) },
+        userId,
       });
-
-      // Analyze the message using Gemini
-      const analysis = await step.run("analyze-message", async () => {
-        try {
-          const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash-latest" });
-
-          const prompt = `Analyze this therapy message and provide insights. Return ONLY a valid JSON object with no markdown formatting or additional text.
-          Message: ${message}
-          Context: ${JSON.stringify({ memory, goals })}
-          
-          Required JSON structure:
-          {
-            "emotionalState": "string",
-            "themes": ["string"],
-            "riskLevel": number,
-            "recommendedApproach": "string",
-            "progressIndicators": ["string"]
-          }`;
-
-          const result = await model.generateContent(prompt);
-          const response = await result.response;
-          const text = response.text().trim();
-
-          logger.info("Received analysis from Gemini:", { text });
-
-          // Clean the response text to ensure it's valid JSON
-          const cleanText = text.replace(/```json\n|\n```/g, "").trim();
-          const parsedAnalysis = JSON.parse(cleanText);
-
-          logger.info("Successfully parsed analysis:", parsedAnalysis);
-          return parsedAnalysis;
-        } catch (error) {
-          logger.error("Error in message analysis:", { error, message });
-          // Return a default analysis instead of throwing
-          return {
-            emotionalState: "neutral",
-            themes: [],
-            riskLevel: 0,
-            recommendedApproach: "supportive",
-            progressIndicators: [],
-          };
-        }
+      await storeMessageAnalysis({
+        sessionId,
+        userId,
+        messageId: replyId || messageId,
+        status: "completed",
+        analysis,
       });
+      return { riskLevel: analysis.riskLevel };
+    });
 
-      // Update memory based on analysis
-      const updatedMemory = await step.run("update-memory", async () => {
-        if (analysis.emotionalState) {
-          memory.userProfile.emotionalState.push(analysis.emotionalState);
-        }
-        if (analysis.themes) {
-          memory.sessionContext.conversationThemes.push(...analysis.themes);
-        }
-        if (analysis.riskLevel) {
-          memory.userProfile.riskLevel = analysis.riskLevel;
-        }
-        return memory;
-      });
+    if (!analyzed) {
+      logger.warn("Skipping analysis: message no longer exists", { sessionId, messageId });
+      return { message: "Message no longer exists", sessionId };
+    }
 
-      // If high risk is detected, trigger an alert
-      if (analysis.riskLevel > 4) {
-        await step.run("trigger-risk-alert", async () => {
-          logger.warn("High risk level detected in chat message", {
-            message,
-            riskLevel: analysis.riskLevel,
-          });
+    // If high risk is detected, record it, escalate to a human and make
+    // sure the user sees crisis resources in the conversation
+    if (analyzed.riskLevel > RISK_THRESHOLD) {
+      await step.run("trigger-risk-alert", async () => {
+        logger.warn("High risk level detected in chat message", {
+          sessionId,
+          riskLevel: analyzed.riskLevel,
+        });
+        await recordRiskEvent({
+          userId,
+          sessionId,
+          messageId,
+          riskLevel: analyzed.riskLevel,
+          source: "analysis",
+          locale,
         });
-      }
-
-      // Generate therapeutic response
-      const response = await step.run("generate-response", async () => {
-        try {
-          const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash-latest" });
-
-          const prompt = `${systemPrompt}
-          
-          Based on the following context, generate a therapeutic response:
-          Message: ${message}
-          Analysis: ${JSON.stringify(analysis)}
-          Memory: ${JSON.stringify(memory)}
-          Goals: ${JSON.stringify(goals)}
-          
-          Provide a response that:
-          1. Addresses the immediate emotional needs
-          2. Uses appropriate therapeutic techniques
-          3. Shows empathy and understanding
-          4. Maintains professional boundaries
-          5. Considers safety and well-being`;
-
-          const result = await model.generateContent(prompt);
-          const responseText = result.response.text().trim();
-
-          logger.info("Generated response:", { responseText });
-          return responseText;
-        } catch (error) {
-          logger.error("Error generating response:", { error, message });
-          // Return a default response instead of throwing
-          return "I'm here to support you. Could you tell me more about what's on your mind?";
-        }
       });
 
-      // Return the response in the expected format
-      return {
-        response,
-        analysis,
-        updatedMemory,
-      };
-    } catch (error) {
-      logger.error("Error in chat message processing:", {
-        error,
-        message: event.data.message,
+      await step.run("send-crisis-resources", async () => {
+        await ChatSession.updateOne(
+          { sessionId },
+          {
+            $push: {
+              messages: {
+                role: "assistant",
+                content: await encryptString(userId, getCrisisResources(locale)),
+                timestamp: new Date(),
+              },
+            },
+          }
+        );
       });
-      // Return a default response instead of throwing
-      return {
-        response:
-          "I'm here to support you. Could you tell me more about what's on your mind?",
-        analysis: {
-          emotionalState: "neutral",
-          themes: [],
-          riskLevel: 0,
-          recommendedApproach: "supportive",
-          progressIndicators: [],
-        },
-        updatedMemory: event.data.memory,
-      };
     }
+
+    // Persist to the user's long-term memory
+    await step.run("update-memory", async () => {
+      const exchange = await loadAnalyzedMessage(sessionId, messageId, replyId);
+      if (!exchange) return { updated: false };
+      await recordExchange({ userId, sessionId, ...exchange });
+      return { updated: true };
+    });
+
+    // Track goal progress and let the assistant propose new goals
+    await step.run("review-goals", async () => {
+      try {
+        const exchange = await loadAnalyzedMessage(sessionId, messageId, replyId);
+        if (!exchange) return { proposed: 0, notes: 0 };
+        return await reviewGoals({ userId, sessionId, messageId, ...exchange });
+      } catch (error) {
+        logger.error("Error reviewing goals:", { error });
+        return { proposed: 0, notes: 0 };
+      }
+    });
+
+    return {
+      message: "Message analyzed",
+      sessionId,
+      messageId,
+      riskLevel: analyzed.riskLevel,
+    };
   }
 );
 
@@ -186,29 +151,39 @@ export const analyzeTherapySession = inngest.createFunction(
         return event.data.notes || event.data.transcript;
       });
 
-      // Analyze the session using Gemini
+      // Analyze the session using the configured LLM
       const analysis = await step.run("analyze-with-gemini", async () => {
-        const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-
         const prompt = `Analyze this therapy session and provide insights:
         Session Content: ${sessionContent}
-        
-        Please provide:
-        1. Key themes and topics discussed
-        2. Emotional state analysis
-        3. Potential areas of concern
-        4. Recommendations for follow-up
-        5. Progress indicators
-        
-        Format the response as a JSON object.`;
-
-        const result = await model.generateContent(prompt);
-        const response = await result.response;
-        const text = response.text();
-
-        return JSON.parse(text);
+
+        Return ONLY a valid JSON object with no markdown formatting or additional text:
+        {
+          "themes": ["key themes and topics discussed"],
+          "emotionalState": "overall emotional state",
+          "areasOfConcern": ["potential areas of concern"],
+          "recommendations": ["recommendations for follow-up"],
+          "progressIndicators": ["signs of progress"]
+        }`;
+
+        try {
+          return await generateStructured(prompt, sessionAnalysisSchema, {
+            task: "session-analysis",
+            userId: event.data.userId,
+          });
+        } catch (error) {
+          // Retrying the whole step would only repeat the same failure
+          if (error instanceof StructuredOutputError) {
+            logger.error("Session analysis output unusable:", error.problems);
+            return null;
+          }
+          throw error;
+        }
       });
 
+      if (!analysis) {
+        return { message: "Session analysis failed", analysis: null };
+      }
+
       // Store the analysis
       await step.run("store-analysis", async () => {
         // Here you would typically store the analysis in your database
@@ -217,7 +192,7 @@ export const analyzeTherapySession = inngest.createFunction(
       });
 
       // If there are concerning indicators, trigger an alert
-      if (analysis.areasOfConcern?.length > 0) {
+      if (analysis.areasOfConcern.length > 0) {
         await step.run("trigger-concern-alert", async () => {
           logger.warn("Concerning indicators detected in session analysis", {
             sessionId: event.data.sessionId,
@@ -244,52 +219,112 @@ export const generateActivityRecommendations = inngest.createFunction(
   { event: "mood/updated" },
   async ({ event, step }) => {
     try {
-      // Get user's mood history and activity history
-      const userContext = await step.run("get-user-context", async () => {
-        // Here you would typically fetch user's history from your database
-        return {
-          recentMoods: event.data.recentMoods,
-          completedActivities: event.data.completedActivities,
-          preferences: event.data.preferences,
+      const userId = event.data.userId;
+      if (!userId) {
+        logger.warn("Skipping recommendations: mood event has no userId");
+        return { message: "No user to generate recommendations for" };
+      }
+
+      // Mood notes are decrypted, sent to the model and the result stored
+      // all in one step, so none of it ends up in Inngest's step output
+      const stored = await step.run("generate-recommendations", async () => {
+        const [recentMoods, completedActivities, pastRecommendations, allowedTypes] =
+          await Promise.all([
+            Mood.find({ userId }).sort({ timestamp: -1 }).limit(14),
+            Activity.find({ userId }).sort({ timestamp: -1 }).limit(20),
+            Recommendation.find({
+              userId,
+              status: { $in: ["accepted", "dismissed"] },
+            })
+              .sort({ respondedAt: -1 })
+              .limit(10),
+            ActivityType.find({ userId }).select("name"),
+          ]);
+
+        const userContext = {
+          recentMoods: await Promise.all(
+            recentMoods.map(async (mood) => ({
+              score: mood.score,
+              note: (await decryptMood(mood)).note,
+              timestamp: mood.timestamp,
+            }))
+          ),
+          completedActivities: completedActivities.map((activity) => ({
+            type: activity.type,
+            name: activity.name,
+            duration: activity.duration,
+            difficulty: activity.difficulty,
+            feedback: activity.feedback,
+            timestamp: activity.timestamp,
+          })),
+          acceptedRecommendations: pastRecommendations
+            .filter((rec) => rec.status === "accepted")
+            .map((rec) => rec.title),
+          dismissedRecommendations: pastRecommendations
+            .filter((rec) => rec.status === "dismissed")
+            .map((rec) => ({ title: rec.title, reason: rec.feedback })),
+          activityTypes: [
+            ...DEFAULT_ACTIVITY_TYPES,
+            ...allowedTypes.map((t) => t.name),
+          ],
         };
-      });
 
-      // Generate recommendations using Gemini
-      const recommendations = await step.run(
-        "generate-recommendations",
-        async () => {
-          const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash-latest" });
-
-          const prompt = `Based on the following user context, generate personalized activity recommendations:
-        User Context: ${JSON.stringify(userContext)}
-        
-        Please provide:
-        1. 3-5 personalized activity recommendations
-        2. Reasoning for each recommendation
-        3. Expected benefits
-        4. Difficulty level
-        5. Estimated duration
-        
-        Format the response as a JSON object.`;
-
-          const result = await model.generateContent(prompt);
-          const response = await result.response;
-          const text = response.text();
-
-          return JSON.parse(text);
+        const prompt = `Based on the following user context, generate personalized activity recommendations.
+Moods are scored 0-100 (higher is better). Prefer activities similar to ones the user accepted and avoid ones they dismissed.
+
+User Context: ${JSON.stringify(userContext)}
+
+Return ONLY a valid JSON object with no markdown formatting or additional text:
+{
+  "recommendations": [
+    {
+      "activity": "short title",
+      "type": "one of ${userContext.activityTypes.join(", ")}",
+      "reasoning": "why this helps the user right now",
+      "benefits": ["string"],
+      "difficulty": "easy | moderate | challenging",
+      "duration": 10
+    }
+  ]
+}
+Provide 3-5 recommendations.`;
+
+        let recommendations: ReturnType<typeof normalizeRecommendations>;
+        try {
+          const raw = await generateStructured(prompt, recommendationsSchema, {
+            task: "recommendations",
+            userId: String(userId),
+          });
+          recommendations = normalizeRecommendations(raw, userContext.activityTypes);
+        } catch (error) {
+          if (!(error instanceof StructuredOutputError)) throw error;
+          logger.error("Recommendation output unusable:", error.problems);
+          recommendations = [];
+        }
+
+        // Store the recommendations, replacing any the user never answered
+        if (recommendations.length === 0) {
+          logger.warn("Model returned no usable recommendations", { userId });
+          return [];
         }
-      );
 
-      // Store the recommendations
-      await step.run("store-recommendations", async () => {
-        // Here you would typically store the recommendations in your database
-        logger.info("Activity recommendations stored successfully");
-        return recommendations;
+        await Recommendation.updateMany(
+          { userId, status: "pending" },
+          { $set: { status: "superseded" } }
+        );
+        const docs = await Recommendation.insertMany(
+          recommendations.map((rec) => ({ ...rec, userId }))
+        );
+        logger.info("Activity recommendations stored successfully", {
+          userId,
+          count: docs.length,
+        });
+        return docs.map((doc) => String(doc._id));
       });
 
       return {
         message: "Activity recommendations generated",
-        recommendations,
+        stored,
       };
     } catch (error) {
       logger.error("Error generating activity recommendations:", error);
@@ -298,9 +333,135 @@ export const generateActivityRecommendations = inngest.createFunction(
   }
 );
 
+// Function to write the closing summary of a completed chat session
+export const generateSessionSummary = inngest.createFunction(
+  { id: "generate-session-summary" },
+  { event: "therapy/session.completed" },
+  async ({ event, step }) => {
+    const { sessionId } = event.data;
+
+    // Load, generate and store in one step so neither the transcript nor
+    // the summary ends up in Inngest's stored step output
+    const status = await step.run("generate-summary", async () => {
+      const session = await ChatSession.findOne({ sessionId });
+      if (!session || session.messages.length === 0) return "skipped";
+
+      const messages = await decryptMessages(session.messages);
+      const moods = messages
+        .map((msg) => msg.metadata?.analysis?.emotionalState)
+        .filter((state): state is string => typeof state === "string");
+      const techniques = [
+        ...new Set(messages.map((msg) => msg.metadata?.technique).filter(Boolean)),
+      ];
+      const earlier = session.summary ? await decryptString(session.summary) : undefined;
+
+      const prompt = `You are writing the closing notes for a completed therapy chat session.
+${earlier ? `\nSummary of the earlier part of the session:\n${earlier}\n` : ""}
+Transcript:
+${formatTranscript(messages.slice(session.summarizedUntil || 0))}
+
+Emotional states detected during the session, in order: ${moods.join(", ") || "none"}
+Techniques noted during the session: ${techniques.join(", ") || "none"}
+
+Return ONLY a valid JSON object with no markdown formatting or additional text:
+{
+  "overview": "2-3 sentences on what was discussed, written to the user",
+  "themes": ["string"],
+  "moodShift": {
+    "start": "how the user seemed at the start",
+    "end": "how the user seemed at the end",
+    "direction": "improved | unchanged | worsened | unclear"
+  },
+  "techniques": ["therapeutic techniques the therapist used"],
+  "homework": ["1-3 small, concrete things the user could try before next time"]
+}`;
+
+      let summary;
+      try {
+        summary = await generateStructured(prompt, sessionSummarySchema, {
+          task: "closing-summary",
+          userId: String(session.userId),
+        });
+      } catch (error) {
+        if (error instanceof StructuredOutputError) {
+          logger.error("Closing summary output unusable:", error.problems);
+          return "unusable";
+        }
+        throw error;
+      }
+
+      session.closingSummary = { ...summary, generatedAt: new Date() };
+      await session.save();
+      logger.info("Closing summary stored", { sessionId });
+      return "stored";
+    });
+
+    if (status !== "stored") {
+      logger.warn("No closing summary generated", { sessionId, status });
+      return { message: "No closing summary generated", sessionId };
+    }
+
+    return {
+      message: "Closing summary generated",
+      sessionId,
+    };
+  }
+);
+
+// Function to title a session, or retitle it when the conversation drifts
+export const generateSessionTopic = inngest.createFunction(
+  {
+    id: "generate-session-topic",
+    // Bursts of messages only need one run per session
+    debounce: { key: "event.data.sessionId", period: "30s" },
+  },
+  { event: "therapy/session.topic" },
+  async ({ event, step }) => {
+    const { sessionId } = event.data;
+
+    const result = await step.run("generate-topic", async () => {
+      const session = await ChatSession.findOne({ sessionId });
+      if (!session || session.topicSource === "user") return null;
+
+      const messageCount = session.messages.length;
+      const recent = await decryptMessages(session.messages.slice(-12));
+      const topic = session.topic
+        ? await reviewTopic(session.topic, recent, String(session.userId))
+        : await generateTopicTitle(recent, String(session.userId));
+      return { topic, messageCount };
+    });
+
+    if (!result) {
+      return { message: "Topic is set by the user", sessionId };
+    }
+
+    await step.run("store-topic", async () => {
+      const update: Record<string, unknown> = { topicMessageCount: result.messageCount };
+      if (result.topic) {
+        update.topic = result.topic;
+        update.topicSource = "auto";
+      }
+      // The user may have renamed the session while we were working
+      await ChatSession.updateOne(
+        { sessionId, topicSource: { $ne: "user" } },
+        { $set: update }
+      );
+    });
+
+    logger.info("Session topic checked", { sessionId, topic: result.topic });
+    return {
+      message: result.topic ? "Session topic updated" : "Session topic unchanged",
+      sessionId,
+      topic: result.topic,
+    };
+  }
+);
+
 // Add the functions to the exported array
 export const functions = [
   processChatMessage,
   analyzeTherapySession,
   generateActivityRecommendations,
+  generateSessionSummary,
+  generateSessionTopic,
 ];
\ No newline at end of file
@@ -1,5 +1,14 @@
 import { inngest } from "./index";
 import { functions as aiFunctions } from "./aiFunctions";
+import { Types } from "mongoose";
+import { User } from "../models/User";
+import { Mood } from "../models/Mood";
+import { AuditLog } from "../models/AuditLog";
+import { deleteUserData } from "../utils/accountData";
+import { logger } from "../utils/logger";
+
+// Mood scores run from 0 to 100; anything below this is worth a follow-up
+const CONCERNING_MOOD_SCORE = 30;
 
 // Create a logger
 // const helloWorld = inngest.createFunction(
@@ -54,10 +63,19 @@ export const moodTrackingHandler = inngest.createFunction(
   { id: "mood-tracking-handler" },
   { event: "mood/updated" },
   async ({ event, step }) => {
-    // Log the mood update
-    await step.run("log-mood-update", async () => {
-      console.log("Mood update received:", event.data);
+    const { userId, moodId } = event.data;
+
+    // The event only carries ids; the note stays encrypted in the database,
+    // so only the score comes back as step output
+    const score = await step.run("load-mood", async () => {
+      const mood = await Mood.findOne({ _id: moodId, userId }).select("score");
+      return mood ? mood.score : null;
     });
+    if (score === null) {
+      logger.warn("Mood update for a mood that no longer exists", { userId, moodId });
+      return { message: "Mood not found" };
+    }
+    logger.info("Mood update received", { userId, moodId, score });
 
     // Analyze mood patterns
     const analysis = await step.run("analyze-mood-patterns", async () => {
@@ -69,10 +87,9 @@ export const moodTrackingHandler = inngest.createFunction(
     });
 
     // If mood is concerning, trigger an alert
-    if (event.data.mood < 3) {
-      // Assuming mood is on a scale of 1-5
+    if (score < CONCERNING_MOOD_SCORE) {
       await step.run("trigger-alert", async () => {
-        console.log("Triggering alert for concerning mood:", event.data);
+        logger.warn("Triggering alert for concerning mood", { userId, moodId, score });
         // Add alert logic here
       });
     }
@@ -118,10 +135,52 @@ export const activityCompletionHandler = inngest.createFunction(
   }
 );
 
+// Function to erase an account once its deletion grace period has passed
+export const accountDeletionHandler = inngest.createFunction(
+  {
+    id: "account-deletion-handler",
+    cancelOn: [{ event: "account/deletion.cancelled", match: "data.userId" }],
+  },
+  { event: "account/deletion.requested" },
+  async ({ event, step }) => {
+    await step.sleepUntil("wait-for-grace-period", event.data.scheduledFor);
+
+    // The user may have cancelled without the cancel event reaching us
+    const stillRequested = await step.run("check-deletion-requested", async () => {
+      const user = await User.findById(event.data.userId).select("deletionScheduledFor");
+      return Boolean(
+        user?.deletionScheduledFor && user.deletionScheduledFor.getTime() <= Date.now()
+      );
+    });
+    if (!stillRequested) {
+      return { message: "Account deletion no longer requested", userId: event.data.userId };
+    }
+
+    const counts = await step.run("delete-user-data", async () => {
+      return deleteUserData(new Types.ObjectId(event.data.userId));
+    });
+
+    await step.run("write-audit-record", async () => {
+      await AuditLog.create({
+        userId: event.data.userId,
+        action: "account.deleted",
+        details: { counts },
+      });
+    });
+
+    return {
+      message: "Account deleted",
+      userId: event.data.userId,
+      counts,
+    };
+  }
+);
+
 // Add all functions to the exported array
 export const functions = [
   therapySessionHandler,
   moodTrackingHandler,
   activityCompletionHandler,
+  accountDeletionHandler,
   ...aiFunctions,
 ];
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { GenerateOptions, LLMProvider } from "./types";
+
+// The API sends usageMetadata with every response, but this SDK version
+// doesn't declare it
+interface WithUsage {
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+}
+
+const reportUsage = (options: GenerateOptions, response: unknown) => {
+  const usage = (response as WithUsage)?.usageMetadata;
+  if (usage && options.onUsage) {
+    options.onUsage({
+      promptTokens: usage.promptTokenCount || 0,
+      responseTokens: usage.candidatesTokenCount || 0,
+    });
+  }
+};
+
+export class GeminiProvider implements LLMProvider {
+  name = "gemini";
+  model: string;
+  private genAI: GoogleGenerativeAI;
+
+  constructor(apiKey: string, model = "gemini-2.5-flash-lite") {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.model = model;
+  }
+
+  private getModel(options: GenerateOptions) {
+    return this.genAI.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxOutputTokens,
+      },
+    });
+  }
+
+  async generateText(prompt: string, options: GenerateOptions = {}) {
+    const result = await this.getModel(options).generateContent(prompt);
+    reportUsage(options, result.response);
+    return result.response.text().trim();
+  }
+
+  async *streamText(prompt: string, options: GenerateOptions = {}) {
+    const result = await this.getModel(options).generateContentStream(prompt);
+    // Each chunk carries the running totals, so the last one wins
+    let lastChunk: unknown;
+    for await (const chunk of result.stream) {
+      lastChunk = chunk;
+      const text = chunk.text();
+      if (text) yield text;
+    }
+    reportUsage(options, lastChunk);
+  }
+}
@@ -0,0 +1,56 @@
+import { createLLMProvider, getLLMConfig } from "./index";
+
+describe("getLLMConfig", () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env };
+    delete process.env.LLM_PROVIDER;
+    delete process.env.GEMINI_API_KEY;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it("uses Gemini when only a Gemini key is set", () => {
+    process.env.GEMINI_API_KEY = "key";
+    process.env.GEMINI_MODEL = "gemini-test";
+    expect(getLLMConfig()).toEqual({ provider: "gemini", apiKey: "key", model: "gemini-test" });
+  });
+
+  it("honors an explicit provider, whatever its case", () => {
+    process.env.LLM_PROVIDER = "OpenAI";
+    process.env.OPENAI_BASE_URL = "http://localhost:11434/v1";
+    expect(getLLMConfig()).toMatchObject({
+      provider: "openai",
+      baseUrl: "http://localhost:11434/v1",
+    });
+  });
+
+  it("refuses to fall back to the stub when nothing is configured", () => {
+    expect(() => getLLMConfig()).toThrow("No LLM provider configured");
+  });
+
+  it("uses the stub only when asked to", () => {
+    process.env.LLM_PROVIDER = "stub";
+    expect(getLLMConfig()).toEqual({ provider: "stub" });
+  });
+
+  it("rejects unknown providers", () => {
+    process.env.LLM_PROVIDER = "nope";
+    expect(() => getLLMConfig()).toThrow("Unknown LLM_PROVIDER: nope");
+  });
+});
+
+describe("createLLMProvider", () => {
+  it("requires a key for Gemini", () => {
+    expect(() => createLLMProvider({ provider: "gemini" })).toThrow("GEMINI_API_KEY");
+  });
+
+  it("builds the stub provider", async () => {
+    const provider = createLLMProvider({ provider: "stub" });
+    expect(provider.name).toBe("stub");
+    expect(await provider.generateText("hello")).toEqual(expect.any(String));
+  });
+});
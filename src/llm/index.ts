@@ -0,0 +1,85 @@
+import { logger } from "../utils/logger";
+import { GeminiProvider } from "./gemini";
+import { MeteredProvider } from "./metered";
+import { OpenAICompatibleProvider } from "./openai";
+import { StubProvider } from "./stub";
+import { LLMConfig, LLMProvider, LLMProviderName } from "./types";
+
+export * from "./types";
+export { parseJSONResponse } from "./json";
+export { estimateTokens } from "./metered";
+export {
+  StructuredOutputError,
+  generateStructured,
+  getStructuredOutputMetrics,
+} from "./structured";
+
+// Read provider settings from the environment. Without an explicit
+// LLM_PROVIDER we use Gemini when a key is present. The stub never answers
+// real users by accident: it has to be asked for with LLM_PROVIDER=stub.
+export const getLLMConfig = (): LLMConfig => {
+  const requested = process.env.LLM_PROVIDER?.toLowerCase() as
+    | LLMProviderName
+    | undefined;
+  const provider = requested || (process.env.GEMINI_API_KEY ? "gemini" : undefined);
+  if (!provider) {
+    throw new Error(
+      "No LLM provider configured: set GEMINI_API_KEY or LLM_PROVIDER " +
+        "(LLM_PROVIDER=stub for offline development)"
+    );
+  }
+
+  switch (provider) {
+    case "gemini":
+      return {
+        provider,
+        apiKey: process.env.GEMINI_API_KEY,
+        model: process.env.GEMINI_MODEL,
+      };
+    case "openai":
+      return {
+        provider,
+        apiKey: process.env.OPENAI_API_KEY,
+        baseUrl: process.env.OPENAI_BASE_URL,
+        model: process.env.OPENAI_MODEL,
+      };
+    case "stub":
+      return { provider };
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+};
+
+export const createLLMProvider = (config: LLMConfig): LLMProvider => {
+  switch (config.provider) {
+    case "gemini":
+      if (!config.apiKey) {
+        throw new Error("GEMINI_API_KEY environment variable is not defined");
+      }
+      return new GeminiProvider(config.apiKey, config.model);
+    case "openai":
+      return new OpenAICompatibleProvider(
+        config.apiKey,
+        config.baseUrl,
+        config.model
+      );
+    case "stub":
+      return new StubProvider();
+  }
+};
+
+let provider: LLMProvider | null = null;
+
+// Lazily build the configured provider on first use
+export const getLLMProvider = (): LLMProvider => {
+  if (!provider) {
+    provider = new MeteredProvider(createLLMProvider(getLLMConfig()));
+    logger.info(`Using LLM provider: ${provider.name} (${provider.model})`);
+  }
+  return provider;
+};
+
+// Swap the active provider, e.g. to force the stub in tests
+export const setLLMProvider = (next: LLMProvider | null) => {
+  provider = next && new MeteredProvider(next);
+};
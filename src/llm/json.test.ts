@@ -0,0 +1,19 @@
+import { parseJSONResponse } from "./json";
+
+describe("parseJSONResponse", () => {
+  it("parses plain JSON", () => {
+    expect(parseJSONResponse('{"a":1}')).toEqual({ a: 1 });
+  });
+
+  it("strips markdown fences", () => {
+    expect(parseJSONResponse('```json\n{"a":[1,2]}\n```')).toEqual({ a: [1, 2] });
+  });
+
+  it("pulls the JSON out of surrounding prose", () => {
+    expect(parseJSONResponse('Here you go: {"a":"b"} Hope that helps!')).toEqual({ a: "b" });
+  });
+
+  it("throws when there is no JSON at all", () => {
+    expect(() => parseJSONResponse("I cannot help with that")).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,19 @@
+// Models often wrap JSON in markdown fences or add a sentence around it,
+// so pull out the outermost object/array before parsing
+export const parseJSONResponse = <T = any>(text: string): T => {
+  const cleanText = text
+    .replace(/```json\n?/g, "")
+    .replace(/\n?```/g, "")
+    .trim();
+
+  try {
+    return JSON.parse(cleanText);
+  } catch (error) {
+    const start = cleanText.search(/[[{]/);
+    const end = Math.max(cleanText.lastIndexOf("}"), cleanText.lastIndexOf("]"));
+    if (start === -1 || end <= start) {
+      throw error;
+    }
+    return JSON.parse(cleanText.substring(start, end + 1));
+  }
+};
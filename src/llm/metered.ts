@@ -0,0 +1,98 @@
+import { logger } from "../utils/logger";
+import { recordLLMUsage } from "../rateLimit/quota";
+import { recordLLMCall } from "../utils/llmAccounting";
+import { GenerateOptions, LLMCallOutcome, LLMProvider, TokenUsage } from "./types";
+
+// Rough token estimate (~4 characters per token) - good enough for budgeting
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Wraps a provider so that every call is recorded for cost accounting,
+ * and calls made for a user (options.userId) count towards their daily
+ * quota. Records are written in the background; a failure to record
+ * never fails the call itself.
+ */
+export class MeteredProvider implements LLMProvider {
+  constructor(private inner: LLMProvider) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get model() {
+    return this.inner.model;
+  }
+
+  async generateText(prompt: string, options: GenerateOptions = {}) {
+    const started = Date.now();
+    let reported: TokenUsage | undefined;
+    const meteredOptions = { ...options, onUsage: (usage: TokenUsage) => (reported = usage) };
+
+    let text = "";
+    let outcome: LLMCallOutcome = "error";
+    try {
+      text = await this.inner.generateText(prompt, meteredOptions);
+      outcome = options.checkOutput ? options.checkOutput(text) : "success";
+      return text;
+    } finally {
+      this.record(options, { prompt, text, reported, started, outcome });
+    }
+  }
+
+  async *streamText(prompt: string, options: GenerateOptions = {}) {
+    const started = Date.now();
+    let reported: TokenUsage | undefined;
+    const meteredOptions = { ...options, onUsage: (usage: TokenUsage) => (reported = usage) };
+
+    let text = "";
+    // Stays "aborted" if the caller stops reading before the end
+    let outcome: LLMCallOutcome = "aborted";
+    try {
+      for await (const chunk of this.inner.streamText(prompt, meteredOptions)) {
+        text += chunk;
+        yield chunk;
+      }
+      outcome = options.checkOutput ? options.checkOutput(text) : "success";
+    } catch (error) {
+      outcome = "error";
+      throw error;
+    } finally {
+      this.record(options, { prompt, text, reported, started, outcome });
+    }
+  }
+
+  private record(
+    options: GenerateOptions,
+    call: {
+      prompt: string;
+      text: string;
+      reported?: TokenUsage;
+      started: number;
+      outcome: LLMCallOutcome;
+    }
+  ) {
+    const usage = call.reported || {
+      promptTokens: estimateTokens(call.prompt),
+      responseTokens: estimateTokens(call.text),
+    };
+
+    recordLLMCall({
+      userId: options.userId,
+      provider: this.inner.name,
+      model: this.inner.model,
+      task: options.task,
+      usage,
+      estimatedTokens: !call.reported,
+      latencyMs: Date.now() - call.started,
+      outcome: call.outcome,
+    }).catch((error) => logger.error("Could not record LLM call:", error));
+
+    if (options.userId) {
+      recordLLMUsage(
+        options.userId,
+        this.inner.model,
+        usage.promptTokens + usage.responseTokens
+      ).catch((error) => logger.error("Could not record LLM usage:", error));
+    }
+  }
+}
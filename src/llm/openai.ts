@@ -0,0 +1,143 @@
+import { logger } from "../utils/logger";
+import { GenerateOptions, LLMProvider } from "./types";
+
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface CompletionResponse {
+  choices?: { message?: { content?: unknown } }[];
+  usage?: CompletionUsage;
+}
+
+interface CompletionChunk {
+  choices?: { delta?: { content?: unknown } }[];
+  usage?: CompletionUsage;
+}
+
+const reportUsage = (options: GenerateOptions, usage?: CompletionUsage) => {
+  if (usage && options.onUsage) {
+    options.onUsage({
+      promptTokens: usage.prompt_tokens || 0,
+      responseTokens: usage.completion_tokens || 0,
+    });
+  }
+};
+
+// Works against any server that speaks the OpenAI chat completions API
+// (OpenAI itself, Azure-style proxies, Ollama, vLLM, LM Studio, ...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  name = "openai";
+  model: string;
+  private apiKey?: string;
+  private baseUrl: string;
+
+  constructor(
+    apiKey: string | undefined,
+    baseUrl = "https://api.openai.com/v1",
+    model = "gpt-4o-mini"
+  ) {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.model = model;
+  }
+
+  private async request(
+    prompt: string,
+    options: GenerateOptions,
+    body: Record<string, any> = {}
+  ) {
+    const res = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: "user", content: prompt }],
+        temperature: options.temperature,
+        max_tokens: options.maxOutputTokens,
+        ...body,
+      }),
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(
+        `OpenAI-compatible request failed (${res.status}): ${errorText.substring(0, 200)}`
+      );
+    }
+    return res;
+  }
+
+  private async complete(
+    prompt: string,
+    options: GenerateOptions,
+    body: Record<string, any> = {}
+  ) {
+    const res = await this.request(prompt, options, body);
+    const data = (await res.json()) as CompletionResponse;
+    reportUsage(options, data?.usage);
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error("OpenAI-compatible response did not include any content");
+    }
+    return content.trim();
+  }
+
+  async generateText(prompt: string, options: GenerateOptions = {}) {
+    return this.complete(
+      prompt,
+      options,
+      options.json ? { response_format: { type: "json_object" } } : {}
+    );
+  }
+
+  async *streamText(prompt: string, options: GenerateOptions = {}) {
+    const res = await this.request(prompt, options, {
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    if (!res.body) {
+      throw new Error("OpenAI-compatible response did not include a body");
+    }
+
+    // The body is a stream of SSE "data: {...}" lines ending with [DONE]
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, "").trim();
+          if (!line.startsWith("data:") || !data) continue;
+          if (data === "[DONE]") return;
+
+          let parsed: CompletionChunk;
+          try {
+            parsed = JSON.parse(data);
+          } catch {
+            logger.warn("Skipping malformed OpenAI-compatible stream line");
+            continue;
+          }
+          // The final chunk carries usage for the whole stream
+          reportUsage(options, parsed?.usage);
+          const text = parsed?.choices?.[0]?.delta?.content;
+          if (typeof text === "string" && text) yield text;
+        }
+      }
+    } finally {
+      // Stops the upstream generation when the caller stops reading early
+      // (e.g. the client disconnected); a no-op once the stream has ended
+      reader.cancel().catch(() => undefined);
+    }
+  }
+}
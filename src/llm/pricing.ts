@@ -0,0 +1,40 @@
+import { logger } from "../utils/logger";
+import { TokenUsage } from "./types";
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices at the time of writing; override or extend with
+// LLM_PRICING={"my-model":{"input":0.1,"output":0.4}}
+const DEFAULT_PRICING: Record<string, ModelPrice> = {
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  stub: { input: 0, output: 0 },
+};
+
+const parsePricing = (): Record<string, ModelPrice> => {
+  if (!process.env.LLM_PRICING) return {};
+  try {
+    return JSON.parse(process.env.LLM_PRICING);
+  } catch {
+    logger.error("LLM_PRICING is not valid JSON, using default prices");
+    return {};
+  }
+};
+
+const PRICING = { ...DEFAULT_PRICING, ...parsePricing() };
+
+export const getModelPrice = (model: string): ModelPrice | undefined => PRICING[model];
+
+// Undefined when we have no price for the model
+export const estimateCost = (model: string, usage: TokenUsage) => {
+  const price = getModelPrice(model);
+  if (!price) return undefined;
+  return (usage.promptTokens * price.input + usage.responseTokens * price.output) / 1_000_000;
+};
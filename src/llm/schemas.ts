@@ -0,0 +1,94 @@
+import { z } from "zod";
+
+// Schemas for every JSON reply we ask the models for. Fields the app
+// cannot work without are required (a miss triggers a repair round);
+// nice-to-have fields fall back to a default instead.
+
+const text = z.string().trim().min(1);
+
+// A list of non-empty strings, dropping anything else the model put in it
+const textList = (max: number) =>
+  z
+    .array(z.unknown())
+    .catch([])
+    .transform((items) =>
+      items
+        .filter((item): item is string => typeof item === "string" && item.trim() !== "")
+        .map((item) => item.trim())
+        .slice(0, max)
+    );
+
+export const messageAnalysisSchema = z.object({
+  emotionalState: text,
+  riskLevel: z.coerce.number().min(0).max(10),
+  themes: textList(10).default([]),
+  recommendedApproach: z.string().trim().catch("supportive").default("supportive"),
+  progressIndicators: textList(10).default([]),
+});
+
+export const sessionAnalysisSchema = z.object({
+  themes: textList(10).default([]),
+  emotionalState: text,
+  areasOfConcern: textList(10).default([]),
+  recommendations: textList(10).default([]),
+  progressIndicators: textList(10).default([]),
+});
+
+export const recommendationsSchema = z.object({
+  recommendations: z
+    .array(
+      z.object({
+        activity: text,
+        type: z.string().optional().catch(undefined),
+        reasoning: text,
+        benefits: textList(5).default([]),
+        difficulty: z.string().optional().catch(undefined),
+        duration: z.coerce.number().positive().optional().catch(undefined),
+      })
+    )
+    .min(1),
+});
+
+export const sessionSummarySchema = z.object({
+  overview: text.transform((value) => value.substring(0, 1000)),
+  themes: textList(5).default([]),
+  moodShift: z
+    .object({
+      start: z.string().trim().optional().catch(undefined),
+      end: z.string().trim().optional().catch(undefined),
+      direction: z
+        .preprocess(
+          (value) => (typeof value === "string" ? value.trim().toLowerCase() : value),
+          z.enum(["improved", "unchanged", "worsened", "unclear"])
+        )
+        .catch("unclear"),
+    })
+    .catch({ direction: "unclear" as const }),
+  techniques: textList(5).default([]),
+  homework: textList(3).default([]),
+});
+
+export const topicReviewSchema = z.object({
+  drifted: z.boolean(),
+  topic: z.string().optional().catch(undefined),
+});
+
+export const goalReviewSchema = z.object({
+  progress: z
+    .array(z.object({ goalId: text, note: text }))
+    .catch([])
+    .default([]),
+  proposedGoals: z
+    .array(z.object({ title: text, description: z.string().optional().catch(undefined) }))
+    .catch([])
+    .default([]),
+});
+
+export const extractedMemorySchema = z.object({
+  facts: textList(20).default([]),
+  preferences: z.record(z.string()).catch({}).default({}),
+});
+
+export type SessionAnalysis = z.infer<typeof sessionAnalysisSchema>;
+export type RecommendationsOutput = z.infer<typeof recommendationsSchema>;
+export type SessionSummaryOutput = z.infer<typeof sessionSummarySchema>;
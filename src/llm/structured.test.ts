@@ -0,0 +1,101 @@
+import { setLLMProvider } from "./index";
+import { messageAnalysisSchema } from "./schemas";
+import { StubProvider } from "./stub";
+import {
+  StructuredOutputError,
+  generateStructured,
+  getStructuredOutputMetrics,
+  resetStructuredOutputMetrics,
+} from "./structured";
+import { GenerateOptions } from "./types";
+import * as llmAccounting from "../utils/llmAccounting";
+
+// Replies with the queued texts in order, recording each prompt it gets
+class ScriptedProvider extends StubProvider {
+  prompts: string[] = [];
+
+  constructor(private replies: string[]) {
+    super();
+  }
+
+  async generateText(prompt: string, options: GenerateOptions = {}) {
+    this.prompts.push(prompt);
+    return this.replies.shift() ?? (await super.generateText(prompt, options));
+  }
+}
+
+const VALID_ANALYSIS = JSON.stringify({
+  emotionalState: "anxious",
+  riskLevel: 2,
+  themes: ["work"],
+  recommendedApproach: "supportive",
+  progressIndicators: [],
+});
+
+describe("generateStructured", () => {
+  let recordLLMCall: jest.SpyInstance;
+
+  beforeEach(() => {
+    resetStructuredOutputMetrics();
+    recordLLMCall = jest.spyOn(llmAccounting, "recordLLMCall").mockResolvedValue();
+  });
+
+  afterEach(() => setLLMProvider(new StubProvider()));
+
+  it("returns the parsed output of a valid reply", async () => {
+    const analysis = await generateStructured("Analyze", messageAnalysisSchema, {
+      task: "analysis",
+    });
+
+    expect(analysis).toMatchObject({ emotionalState: "neutral", riskLevel: 1 });
+    expect(getStructuredOutputMetrics().analysis).toMatchObject({ requests: 1, repaired: 0 });
+  });
+
+  it("sends a reply that does not parse back for repair", async () => {
+    const provider = new ScriptedProvider(["Sure! Here is the analysis: {oops", VALID_ANALYSIS]);
+    setLLMProvider(provider);
+
+    const analysis = await generateStructured("Analyze this", messageAnalysisSchema, {
+      task: "analysis",
+    });
+
+    expect(analysis.emotionalState).toBe("anxious");
+    expect(provider.prompts).toHaveLength(2);
+    expect(provider.prompts[1]).toContain("Analyze this");
+    expect(provider.prompts[1]).toContain("not valid JSON");
+    expect(getStructuredOutputMetrics().analysis).toMatchObject({
+      parseFailures: 1,
+      repaired: 1,
+      failed: 0,
+    });
+    expect(recordLLMCall.mock.calls.map(([call]) => call.outcome)).toEqual([
+      "parse-failure",
+      "success",
+    ]);
+  });
+
+  it("lists schema problems in the repair prompt", async () => {
+    const provider = new ScriptedProvider([
+      JSON.stringify({ riskLevel: 3 }),
+      VALID_ANALYSIS,
+    ]);
+    setLLMProvider(provider);
+
+    await generateStructured("Analyze this", messageAnalysisSchema, { task: "analysis" });
+
+    expect(provider.prompts[1]).toContain("emotionalState: Required");
+    expect(getStructuredOutputMetrics().analysis).toMatchObject({
+      validationFailures: 1,
+      repaired: 1,
+    });
+  });
+
+  it("throws a StructuredOutputError when the repair fails too", async () => {
+    setLLMProvider(new ScriptedProvider(["not json", "still not json"]));
+
+    await expect(
+      generateStructured("Analyze this", messageAnalysisSchema, { task: "analysis" })
+    ).rejects.toBeInstanceOf(StructuredOutputError);
+    expect(getStructuredOutputMetrics().analysis).toMatchObject({ requests: 1, failed: 1 });
+  });
+});
@@ -0,0 +1,121 @@
+import { z } from "zod";
+import { logger } from "../utils/logger";
+import { getLLMProvider } from "./index";
+import { parseJSONResponse } from "./json";
+import { GenerateOptions, LLMTask } from "./types";
+
+// How many times a malformed reply is sent back to the model for repair
+const MAX_REPAIR_ATTEMPTS = Number(process.env.LLM_REPAIR_ATTEMPTS ?? 1);
+
+export class StructuredOutputError extends Error {
+  task?: LLMTask;
+  problems: string[];
+
+  constructor(task: LLMTask | undefined, problems: string[]) {
+    super(`Model returned invalid ${task || "structured"} output: ${problems.join("; ")}`);
+    this.name = "StructuredOutputError";
+    this.task = task;
+    this.problems = problems;
+  }
+}
+
+export interface StructuredOutputMetrics {
+  requests: number;
+  parseFailures: number;
+  validationFailures: number;
+  repaired: number;
+  failed: number;
+}
+
+// Per-task counters since the process started
+const metrics = new Map<string, StructuredOutputMetrics>();
+
+const track = (task: LLMTask | undefined) => {
+  const key = task || "unknown";
+  let entry = metrics.get(key);
+  if (!entry) {
+    entry = { requests: 0, parseFailures: 0, validationFailures: 0, repaired: 0, failed: 0 };
+    metrics.set(key, entry);
+  }
+  return entry;
+};
+
+export const getStructuredOutputMetrics = (): Record<string, StructuredOutputMetrics> =>
+  Object.fromEntries([...metrics].map(([task, entry]) => [task, { ...entry }]));
+
+export const resetStructuredOutputMetrics = () => metrics.clear();
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+
+const buildRepairPrompt = (prompt: string, reply: string, problems: string[]) =>
+  `${prompt}
+
+Your previous reply could not be used:
+${reply.substring(0, 2000)}
+
+Problems:
+${problems.map((p) => `- ${p}`).join("\n")}
+
+Reply again with ONLY the corrected JSON object, no markdown or explanation.`;
+
+/**
+ * Ask the model for JSON and validate it against `schema`. Replies that
+ * do not parse or do not match are sent back once (LLM_REPAIR_ATTEMPTS)
+ * with the problems listed; after that a StructuredOutputError is thrown
+ * so callers can fall back.
+ */
+export const generateStructured = async <S extends z.ZodTypeAny>(
+  prompt: string,
+  schema: S,
+  options: GenerateOptions = {}
+): Promise<z.output<S>> => {
+  const stats = track(options.task);
+  stats.requests++;
+
+  let attemptPrompt = prompt;
+  let problems: string[] = [];
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    // Judged as part of the call so usage accounting records why it failed
+    let parseError: unknown;
+    let result: z.SafeParseReturnType<unknown, z.output<S>> | undefined;
+    const reply = await getLLMProvider().generateText(attemptPrompt, {
+      ...options,
+      json: true,
+      checkOutput: (text) => {
+        try {
+          result = schema.safeParse(parseJSONResponse(text));
+        } catch (error) {
+          parseError = error;
+          return "parse-failure";
+        }
+        return result.success ? "success" : "validation-failure";
+      },
+    });
+
+    if (!result) {
+      stats.parseFailures++;
+      problems = [`not valid JSON (${parseError instanceof Error ? parseError.message : parseError})`];
+      logger.warn("Structured output did not parse", { task: options.task, attempt });
+      attemptPrompt = buildRepairPrompt(prompt, reply, problems);
+      continue;
+    }
+
+    if (result.success) {
+      if (attempt > 0) stats.repaired++;
+      return result.data;
+    }
+
+    stats.validationFailures++;
+    problems = describeIssues(result.error);
+    logger.warn("Structured output failed validation", {
+      task: options.task,
+      attempt,
+      problems,
+    });
+    attemptPrompt = buildRepairPrompt(prompt, reply, problems);
+  }
+
+  stats.failed++;
+  throw new StructuredOutputError(options.task, problems);
+};
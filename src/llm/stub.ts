@@ -0,0 +1,89 @@
+import { GenerateOptions, LLMProvider, LLMTask } from "./types";
+
+const STUB_REPLIES = [
+  "Thank you for sharing that with me. It sounds like a lot to carry. What feels most pressing for you right now?",
+  "I hear you. It makes sense that you would feel this way. Could you tell me a bit more about when this started?",
+  "That sounds really difficult. What has helped you cope with feelings like this in the past?",
+];
+
+const STUB_JSON: Partial<Record<LLMTask, any>> = {
+  analysis: {
+    emotionalState: "neutral",
+    themes: ["general_support"],
+    riskLevel: 1,
+    recommendedApproach: "supportive",
+    progressIndicators: ["active_engagement"],
+  },
+  "session-analysis": {
+    themes: ["general_support"],
+    emotionalState: "neutral",
+    areasOfConcern: [],
+    recommendations: ["Continue regular check-ins"],
+    progressIndicators: ["active_engagement"],
+  },
+  "topic-review": {
+    drifted: false,
+  },
+  "closing-summary": {
+    overview: "The user checked in about how they have been feeling and talked through what is on their mind.",
+    themes: ["general_support"],
+    moodShift: { start: "neutral", end: "neutral", direction: "unchanged" },
+    techniques: ["reflective listening"],
+    homework: ["Take a few minutes each evening to note how the day felt."],
+  },
+  memory: {
+    facts: [],
+    preferences: {},
+  },
+  goals: {
+    progress: [],
+    proposedGoals: [],
+  },
+  recommendations: {
+    recommendations: [
+      {
+        activity: "Five-minute breathing exercise",
+        type: "meditation",
+        reasoning: "Slow breathing helps regulate stress.",
+        benefits: ["Reduced tension"],
+        difficulty: "easy",
+        duration: 5,
+      },
+    ],
+  },
+};
+
+// Simple string hash so the same prompt always gets the same reply
+const hash = (text: string) => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) {
+    h = (h * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+};
+
+// Deterministic, offline provider for local development and tests
+export class StubProvider implements LLMProvider {
+  name = "stub";
+  model = "stub";
+
+  async generateText(prompt: string, options: GenerateOptions = {}) {
+    if (options.json) {
+      return JSON.stringify((options.task && STUB_JSON[options.task]) || {});
+    }
+    if (options.task === "topic") {
+      return "💬 Therapy Session";
+    }
+    if (options.task === "summary") {
+      return "The user has been talking through how they are feeling and what is on their mind.";
+    }
+    return STUB_REPLIES[hash(prompt) % STUB_REPLIES.length];
+  }
+
+  async *streamText(prompt: string, options: GenerateOptions = {}) {
+    const text = await this.generateText(prompt, options);
+    for (const word of text.split(/(?<= )/)) {
+      yield word;
+    }
+  }
+}
@@ -0,0 +1,65 @@
+// Which part of the app is asking the model for something
+export type LLMTask =
+  | "analysis"
+  | "response"
+  | "topic"
+  | "topic-review"
+  | "summary"
+  | "memory"
+  | "goals"
+  | "session-analysis"
+  | "closing-summary"
+  | "recommendations";
+
+// How a single model call ended, as recorded for usage accounting:
+// - error: the provider call failed
+// - aborted: a stream the caller stopped reading
+// - parse-failure / validation-failure: structured output that was not
+//   JSON or did not match the schema
+// - fallback: a reply that came back but the caller had to replace
+export const LLM_CALL_OUTCOMES = [
+  "success",
+  "error",
+  "aborted",
+  "parse-failure",
+  "validation-failure",
+  "fallback",
+] as const;
+
+export type LLMCallOutcome = (typeof LLM_CALL_OUTCOMES)[number];
+
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+}
+
+export interface GenerateOptions {
+  task?: LLMTask;
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Ask for a bare JSON reply where the provider supports it
+  json?: boolean;
+  // The user the call is made for; counts towards their daily quota
+  userId?: string;
+  // Judge a reply that came back but may not be usable (see LLMCallOutcome)
+  checkOutput?: (text: string) => LLMCallOutcome;
+  // Providers that know the real token counts report them here
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  generateText(prompt: string, options?: GenerateOptions): Promise<string>;
+  // Yields text chunks as the model produces them
+  streamText(prompt: string, options?: GenerateOptions): AsyncIterable<string>;
+}
+
+export type LLMProviderName = "gemini" | "openai" | "stub";
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
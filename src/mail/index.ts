@@ -0,0 +1,57 @@
+import path from "path";
+import { logger } from "../utils/logger";
+import {
+  ConsoleTransport,
+  FileTransport,
+  HttpTransport,
+  MailMessage,
+  MailTransport,
+} from "./transports";
+
+export * from "./transports";
+export * from "./templates";
+
+const createTransport = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "http":
+      if (!process.env.MAIL_API_URL) {
+        throw new Error("MAIL_API_URL environment variable is not defined");
+      }
+      return new HttpTransport(
+        process.env.MAIL_API_URL,
+        process.env.MAIL_FROM || "no-reply@localhost",
+        process.env.MAIL_API_KEY
+      );
+    case "file":
+      return new FileTransport(
+        process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), "mail-outbox")
+      );
+    default:
+      return new ConsoleTransport();
+  }
+};
+
+let transport: MailTransport | null = null;
+
+export const getMailTransport = () => {
+  if (!transport) {
+    transport = createTransport();
+  }
+  return transport;
+};
+
+// Swap the transport, e.g. to capture emails in tests
+export const setMailTransport = (next: MailTransport | null) => {
+  transport = next;
+};
+
+// Send an email without letting a mail failure break the request
+export const sendMail = async (message: MailMessage) => {
+  try {
+    await getMailTransport().send(message);
+    return true;
+  } catch (error) {
+    logger.error("Failed to send email:", { to: message.to, error });
+    return false;
+  }
+};
@@ -0,0 +1,14 @@
+import { passwordResetEmail } from "./templates";
+
+describe("passwordResetEmail", () => {
+  it.each([
+    [60, "an hour"],
+    [30, "30 minutes"],
+    [90, "90 minutes"],
+    [120, "2 hours"],
+    [24 * 60, "a day"],
+  ])("describes a %i minute link lifetime as %j", (minutes, wording) => {
+    const { text } = passwordResetEmail("ada@example.com", "Ada", "token", minutes);
+    expect(text).toContain(`It expires in ${wording} and can only be used once.`);
+  });
+});
@@ -0,0 +1,38 @@
+import { MailMessage } from "./transports";
+
+const APP_URL = (process.env.APP_URL || "http://localhost:3000").replace(/\/+$/, "");
+
+// "an hour", "90 minutes", "2 days", ...
+const describeDuration = (minutes: number) => {
+  const [count, unit] =
+    minutes % (24 * 60) === 0
+      ? [minutes / (24 * 60), "day"]
+      : minutes % 60 === 0
+      ? [minutes / 60, "hour"]
+      : [minutes, "minute"];
+  if (count === 1) return unit === "hour" ? "an hour" : `a ${unit}`;
+  return `${count} ${unit}s`;
+};
+
+export const passwordResetEmail = (
+  to: string,
+  name: string,
+  token: string,
+  ttlMinutes: number
+): MailMessage => {
+  const link = `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+  return {
+    to,
+    subject: "Reset your password",
+    text: `Hi ${name},\n\nWe received a request to reset your password. Use the link below to choose a new one. It expires in ${describeDuration(ttlMinutes)} and can only be used once.\n\n${link}\n\nIf you didn't ask for this, you can ignore this email.`,
+  };
+};
+
+export const verificationEmail = (to: string, name: string, token: string): MailMessage => {
+  const link = `${APP_URL}/verify-email?token=${encodeURIComponent(token)}`;
+  return {
+    to,
+    subject: "Verify your email address",
+    text: `Hi ${name},\n\nPlease confirm your email address by opening the link below.\n\n${link}\n\nIf you didn't create an account, you can ignore this email.`,
+  };
+};
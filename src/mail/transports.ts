@@ -0,0 +1,66 @@
+import fs from "fs/promises";
+import path from "path";
+import { logger } from "../utils/logger";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+// Development stand-in: prints the email to the log
+export class ConsoleTransport implements MailTransport {
+  name = "console";
+
+  async send(message: MailMessage) {
+    logger.info(`[MAIL] to=${message.to} subject="${message.subject}"\n${message.text}`);
+  }
+}
+
+// Development/test stand-in: writes each email as a JSON file to an outbox
+export class FileTransport implements MailTransport {
+  name = "file";
+
+  constructor(private dir: string) {}
+
+  async send(message: MailMessage) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = path.join(
+      this.dir,
+      `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^a-z0-9@._-]/gi, "_")}.json`
+    );
+    await fs.writeFile(
+      file,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+    logger.info(`[MAIL] written to ${file}`);
+  }
+}
+
+// Sends through an HTTP mail API (e.g. a provider's send endpoint or an
+// internal relay) that accepts { from, to, subject, text, html } JSON
+export class HttpTransport implements MailTransport {
+  name = "http";
+
+  constructor(private url: string, private from: string, private apiKey?: string) {}
+
+  async send(message: MailMessage) {
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ from: this.from, ...message }),
+    });
+    if (!res.ok) {
+      throw new Error(`Mail API request failed with status ${res.status}`);
+    }
+  }
+}
@@ -1,6 +1,10 @@
 import { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
+import { JsonWebTokenError, TokenExpiredError } from "jsonwebtoken";
+import { Types } from "mongoose";
+import { AppError } from "./errorHandler";
 import { User } from "../models/User";
+import { ISession, Session } from "../models/Session";
+import { verifyAccessToken } from "../utils/tokens";
 
 // Extend Express Request interface to include user property
 
@@ -8,33 +12,76 @@ declare global {
   namespace Express {
     interface Request {
       user?: any;
+      authSession?: ISession;
     }
   }
 }
 
+// Don't write to the session on every request
+const LAST_ACTIVE_RESOLUTION_MS = 60 * 1000;
+
 export const auth = async (req: Request, res: Response, next: NextFunction) => {
 
   try{
     const token = req.header("Authorization")?.replace("Bearer ", "");
     if (!token) {
-      return res.status(401).json({ message: "Authentication required" });
+      throw new AppError("Authentication required", 401);
     }
 
-    const decoded: any = jwt.verify(
-      token,
-      process.env.JWT_SECRET || "your-secret-key"
+    const decoded = verifyAccessToken(token);
+
+    // Tokens are only valid while their login session exists
+    const session = decoded.sessionId
+      ? await Session.findById(decoded.sessionId)
+      : null;
+    if (
+      !session ||
+      session.userId.toString() !== decoded.userId ||
+      session.expiresAt < new Date()
+    ) {
+      throw new AppError("Session expired or revoked", 401, "SESSION_EXPIRED");
+    }
 
-    ) as any;
     const user = await User.findById(decoded.userId);
 
     if (!user) {
-      return res.status(401).json ({ message: "User not found"})
+      throw new AppError("User not found", 401, "USER_NOT_FOUND");
+    }
+
+    if (Date.now() - session.lastActive.getTime() > LAST_ACTIVE_RESOLUTION_MS) {
+      session.lastActive = new Date();
+      await session.save();
     }
 
     req.user = user;
+    req.authSession = session;
     next();
 
   } catch (error) {
-      res.status(401).json({ message: "Invalid authentication token" });
+    // Only a bad token means "unauthenticated"; database errors and the
+    // like go to the error handler as they are
+    if (error instanceof TokenExpiredError) {
+      return next(new AppError("Authentication token expired", 401, "TOKEN_EXPIRED"));
+    }
+    if (error instanceof JsonWebTokenError) {
+      return next(new AppError("Invalid authentication token", 401, "INVALID_TOKEN"));
+    }
+    next(error);
+  }
+};
+
+// The authenticated user's id, for handlers behind auth
+export const requireUserId = (req: Request) => {
+  if (!req.user?._id) {
+    throw new AppError("Authentication required", 401, "UNAUTHENTICATED");
+  }
+  return new Types.ObjectId(String(req.user._id));
+};
+
+// Restrict a route to admins; must run after auth
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (req.user?.role !== "admin") {
+    return next(new AppError("Admin access required", 403));
   }
-};
\ No newline at end of file
+  next();
+};
@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from "express";
+import { ChatSession, IChatSession } from "../models/chat";
+import { AppError } from "./errorHandler";
+import { requireUserId } from "./auth";
+import { logger } from "../utils/logger";
+
+declare global {
+  namespace Express {
+    interface Request {
+      chatSession?: IChatSession;
+    }
+  }
+}
+
+/**
+ * Load the session named by :sessionId onto req.chatSession, but only if it
+ * belongs to the authenticated user. Someone else's session is reported as
+ * not found so session ids can't be probed. Must run after auth.
+ */
+export const loadOwnedSession = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = requireUserId(req);
+
+    const { sessionId } = req.params;
+    const session = await ChatSession.findOne({ sessionId });
+    if (!session) {
+      throw new AppError("Session not found", 404, "SESSION_NOT_FOUND");
+    }
+    if (!session.userId.equals(userId)) {
+      logger.warn("Session access denied:", { sessionId, userId: String(userId) });
+      throw new AppError("Session not found", 404, "SESSION_NOT_FOUND");
+    }
+
+    req.chatSession = session;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,40 +1,128 @@
 import { Request, Response, NextFunction } from "express";
 import { logger } from "../utils/logger";
 
+// Stable, machine-readable codes; clients should branch on these, not on messages
+export type ErrorCode =
+  | "BAD_REQUEST"
+  | "VALIDATION_FAILED"
+  | "INVALID_JSON"
+  | "INVALID_CURSOR"
+  | "UNAUTHORIZED"
+  | "UNAUTHENTICATED"
+  | "INVALID_TOKEN"
+  | "TOKEN_EXPIRED"
+  | "SESSION_EXPIRED"
+  | "INVALID_CREDENTIALS"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "USER_NOT_FOUND"
+  | "SESSION_NOT_FOUND"
+  | "MESSAGE_NOT_FOUND"
+  | "GOAL_NOT_FOUND"
+  | "ACTIVITY_NOT_FOUND"
+  | "ACTIVITY_TYPE_NOT_FOUND"
+  | "RECOMMENDATION_NOT_FOUND"
+  | "FACT_NOT_FOUND"
+  | "CONFLICT"
+  | "EMAIL_IN_USE"
+  | "SESSION_INACTIVE"
+  | "INVALID_SESSION_TRANSITION"
+  | "RECOMMENDATION_NOT_PENDING"
+  | "PAYLOAD_TOO_LARGE"
+  | "RATE_LIMITED"
+  | "QUOTA_EXCEEDED"
+  | "ACCOUNT_LOCKED"
+  | "INTERNAL_ERROR"
+  | "SERVICE_UNAVAILABLE";
+
+const DEFAULT_CODES: Record<number, ErrorCode> = {
+  400: "BAD_REQUEST",
+  401: "UNAUTHORIZED",
+  403: "FORBIDDEN",
+  404: "NOT_FOUND",
+  409: "CONFLICT",
+  413: "PAYLOAD_TOO_LARGE",
+  429: "RATE_LIMITED",
+  503: "SERVICE_UNAVAILABLE",
+};
+
 export class AppError extends Error {
   statusCode: number;
   status: string;
+  code: ErrorCode;
   isOperational: boolean;
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, code?: ErrorCode) {
     super(message);
     this.statusCode = statusCode;
     this.status = `${statusCode}`.startsWith("4") ? "fail" : "error";
+    this.code = code || DEFAULT_CODES[statusCode] || "INTERNAL_ERROR";
     this.isOperational = true;
 
     Error.captureStackTrace(this, this.constructor);
   }
 }
 
+export interface FieldError {
+  location: "body" | "query" | "params";
+  field: string;
+  message: string;
+}
+
+// A request that failed schema validation (see middleware/validate)
+export class ValidationError extends AppError {
+  errors: FieldError[];
+
+  constructor(errors: FieldError[]) {
+    super("Validation failed", 400, "VALIDATION_FAILED");
+    this.errors = errors;
+  }
+}
+
+// Errors raised by express.json() before any route runs
+const bodyParserError = (err: any): AppError | undefined => {
+  if (err?.type === "entity.parse.failed") {
+    return new AppError("Request body is not valid JSON", 400, "INVALID_JSON");
+  }
+  if (err?.type === "entity.too.large") {
+    return new AppError("Request body is too large", 413);
+  }
+};
+
 export const errorHandler = (
   err: Error | AppError,
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  if (err instanceof AppError) {
+  if (res.headersSent) return next(err);
+
+  if (err instanceof ValidationError) {
     return res.status(err.statusCode).json({
       status: err.status,
+      code: err.code,
       message: err.message,
+      errors: err.errors,
+    });
+  }
+
+  const known = err instanceof AppError ? err : bodyParserError(err);
+  if (known) {
+    return res.status(known.statusCode).json({
+      status: known.status,
+      code: known.code,
+      message: known.message,
     });
   }
 
   // Log unexpected errors
-  logger.error("Unexpected error:", err);
+  logger.error("Unexpected error:", { method: req.method, path: req.path, err });
 
-  // Send generic error for unexpected errors
+  // Send generic error for unexpected errors; details only outside production
   return res.status(500).json({
     status: "error",
+    code: "INTERNAL_ERROR",
     message: "Something went wrong",
+    ...(process.env.NODE_ENV !== "production" && { detail: err.message }),
   });
 };
@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { FieldError, ValidationError } from "./errorHandler";
+
+export interface RequestSchemas {
+  params?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+  body?: z.ZodTypeAny;
+}
+
+const LOCATIONS = ["params", "query", "body"] as const;
+
+/**
+ * Validate the request against the given schemas before the controller
+ * runs. Parsed values replace the originals, so controllers get trimmed,
+ * coerced data with unknown body fields stripped. All problems are
+ * reported together as a ValidationError.
+ */
+export const validate =
+  (schemas: RequestSchemas) => (req: Request, res: Response, next: NextFunction) => {
+    const errors: FieldError[] = [];
+
+    for (const location of LOCATIONS) {
+      const schema = schemas[location];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        req[location] = result.data;
+      } else {
+        errors.push(
+          ...result.error.issues.map((issue) => ({
+            location,
+            field: issue.path.join("."),
+            message: issue.message,
+          }))
+        );
+      }
+    }
+
+    if (errors.length) return next(new ValidationError(errors));
+    next();
+  };
+
+// The query as parsed by validate(); Express types it as raw strings
+export const validatedQuery = <T>(req: Request) => req.query as unknown as T;
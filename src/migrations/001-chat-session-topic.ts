@@ -0,0 +1,15 @@
+import { logger } from "../utils/logger";
+import { MigrationDefinition } from "./types";
+
+// Sessions created before topics existed have no topic field at all
+export const chatSessionTopic: MigrationDefinition = {
+  name: "001-chat-session-topic",
+  up: async (db) => {
+    const result = await db
+      .collection("chatsessions")
+      .updateMany({ topic: { $exists: false } }, { $set: { topic: null } });
+    logger.info(`Added topic field to ${result.modifiedCount} chat sessions`);
+  },
+  // Nothing to undo: a null topic is what the current schema expects
+  down: async () => {},
+};
@@ -0,0 +1,137 @@
+import { logger } from "../utils/logger";
+import { MigrationDefinition } from "./types";
+
+// Bring sessions written by the old duplicate ChatSession model in line
+// with models/chat.ts: metadata.currentGoal (free text) moves to
+// metadata.legacyGoal, since metadata.goal holds a goal id, and some
+// documents are missing status, startTime or timestamps.
+export const normalizeChatSessions: MigrationDefinition = {
+  name: "002-normalize-chat-sessions",
+  up: async (db) => {
+    const sessions = db.collection("chatsessions");
+
+    const status = await sessions.updateMany(
+      { status: { $exists: false } },
+      { $set: { status: "active" } }
+    );
+
+    const timestamps = await sessions.updateMany(
+      {
+        $or: [
+          { startTime: { $exists: false } },
+          { createdAt: { $exists: false } },
+          { updatedAt: { $exists: false } },
+        ],
+      },
+      [
+        {
+          $set: {
+            createdAt: {
+              $ifNull: [
+                "$createdAt",
+                "$startTime",
+                { $first: "$messages.timestamp" },
+                { $toDate: "$_id" },
+              ],
+            },
+          },
+        },
+        {
+          $set: {
+            startTime: { $ifNull: ["$startTime", "$createdAt"] },
+            updatedAt: {
+              $ifNull: ["$updatedAt", { $last: "$messages.timestamp" }, "$createdAt"],
+            },
+          },
+        },
+      ]
+    );
+
+    const summarizedUntil = await sessions.updateMany(
+      { summarizedUntil: { $exists: false } },
+      { $set: { summarizedUntil: 0 } }
+    );
+
+    const goals = await sessions.updateMany(
+      { "messages.metadata.currentGoal": { $exists: true } },
+      [
+        {
+          $set: {
+            messages: {
+              $map: {
+                input: "$messages",
+                as: "message",
+                in: {
+                  $cond: [
+                    { $ifNull: ["$$message.metadata.currentGoal", false] },
+                    {
+                      $mergeObjects: [
+                        "$$message",
+                        {
+                          metadata: {
+                            $mergeObjects: [
+                              "$$message.metadata",
+                              { legacyGoal: "$$message.metadata.currentGoal" },
+                            ],
+                          },
+                        },
+                      ],
+                    },
+                    "$$message",
+                  ],
+                },
+              },
+            },
+          },
+        },
+        { $unset: "messages.metadata.currentGoal" },
+      ]
+    );
+
+    logger.info("Normalized chat sessions", {
+      status: status.modifiedCount,
+      timestamps: timestamps.modifiedCount,
+      summarizedUntil: summarizedUntil.modifiedCount,
+      goals: goals.modifiedCount,
+    });
+  },
+  down: async (db) => {
+    // Only the goal rename loses information if left in place; the
+    // backfilled fields are valid for both schemas
+    await db.collection("chatsessions").updateMany(
+      { "messages.metadata.legacyGoal": { $exists: true } },
+      [
+        {
+          $set: {
+            messages: {
+              $map: {
+                input: "$messages",
+                as: "message",
+                in: {
+                  $cond: [
+                    { $ifNull: ["$$message.metadata.legacyGoal", false] },
+                    {
+                      $mergeObjects: [
+                        "$$message",
+                        {
+                          metadata: {
+                            $mergeObjects: [
+                              "$$message.metadata",
+                              { currentGoal: "$$message.metadata.legacyGoal" },
+                            ],
+                          },
+                        },
+                      ],
+                    },
+                    "$$message",
+                  ],
+                },
+              },
+            },
+          },
+        },
+        { $unset: "messages.metadata.legacyGoal" },
+      ]
+    );
+  },
+};
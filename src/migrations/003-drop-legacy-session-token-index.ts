@@ -0,0 +1,23 @@
+import { logger } from "../utils/logger";
+import { MigrationDefinition } from "./types";
+
+// Sessions used to store the access token in a unique "token" field.
+// Sessions are now keyed by refresh token hash, so the old unique index
+// would reject every new session after the first one.
+export const dropLegacySessionTokenIndex: MigrationDefinition = {
+  name: "003-drop-legacy-session-token-index",
+  up: async (db) => {
+    try {
+      const indexes = await db.collection("sessions").indexes();
+      if (indexes.some((index) => index.name === "token_1")) {
+        await db.collection("sessions").dropIndex("token_1");
+        logger.info("Dropped legacy session token index");
+      }
+    } catch (error: any) {
+      // NamespaceNotFound: no sessions collection yet, nothing to clean up
+      if (error?.code !== 26) throw error;
+    }
+  },
+  // The index cannot come back: current sessions have no token field
+  down: async () => {},
+};
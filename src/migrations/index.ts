@@ -0,0 +1,73 @@
+import mongoose from "mongoose";
+import { logger } from "../utils/logger";
+import { Migration } from "../models/Migration";
+import { MigrationDefinition } from "./types";
+import { chatSessionTopic } from "./001-chat-session-topic";
+import { normalizeChatSessions } from "./002-normalize-chat-sessions";
+import { dropLegacySessionTokenIndex } from "./003-drop-legacy-session-token-index";
+
+// Applied in this order; never reorder or rename an entry once released
+export const migrations: MigrationDefinition[] = [
+  chatSessionTopic,
+  normalizeChatSessions,
+  dropLegacySessionTokenIndex,
+];
+
+export interface MigrationStatus {
+  name: string;
+  appliedAt?: Date;
+}
+
+const getDb = () => {
+  const db = mongoose.connection.db;
+  if (!db) {
+    throw new Error("Database is not connected");
+  }
+  return db;
+};
+
+export const getMigrationStatus = async (): Promise<MigrationStatus[]> => {
+  const applied = await Migration.find();
+  const appliedAt = new Map(applied.map((m) => [m.name, m.appliedAt]));
+  return migrations.map((m) => ({ name: m.name, appliedAt: appliedAt.get(m.name) }));
+};
+
+export const getPendingMigrations = async () => {
+  const status = await getMigrationStatus();
+  return status.filter((m) => !m.appliedAt).map((m) => m.name);
+};
+
+// Apply every pending migration in order, stopping at the first failure
+export const migrateUp = async () => {
+  const pending = new Set(await getPendingMigrations());
+  const applied: string[] = [];
+
+  for (const migration of migrations) {
+    if (!pending.has(migration.name)) continue;
+    logger.info(`Applying migration ${migration.name}`);
+    await migration.up(getDb());
+    await Migration.create({ name: migration.name });
+    applied.push(migration.name);
+  }
+
+  return applied;
+};
+
+// Revert the most recently applied migrations, newest first
+export const migrateDown = async (steps = 1) => {
+  const applied = await Migration.find().sort({ appliedAt: -1, _id: -1 }).limit(steps);
+  const reverted: string[] = [];
+
+  for (const record of applied) {
+    const migration = migrations.find((m) => m.name === record.name);
+    if (!migration) {
+      throw new Error(`Unknown migration ${record.name} - cannot revert`);
+    }
+    logger.info(`Reverting migration ${migration.name}`);
+    await migration.down(getDb());
+    await record.deleteOne();
+    reverted.push(migration.name);
+  }
+
+  return reverted;
+};
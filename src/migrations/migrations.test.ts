@@ -0,0 +1,197 @@
+import "mingo/init/system";
+import { Aggregator, Query, update } from "mingo";
+import mongoose from "mongoose";
+import { Migration } from "../models/Migration";
+import { chatSessionTopic } from "./001-chat-session-topic";
+import { normalizeChatSessions } from "./002-normalize-chat-sessions";
+import { dropLegacySessionTokenIndex } from "./003-drop-legacy-session-token-index";
+import { migrateDown, migrateUp, migrations } from "./index";
+import { Db, MigrationDefinition } from "./types";
+
+type Doc = Record<string, any>;
+
+// Just enough of a MongoDB database for the migrations: updateMany with
+// operator or pipeline updates, evaluated by mingo
+const fakeDb = (collections: Record<string, Doc[]>, indexes: Record<string, string[]> = {}) =>
+  ({
+    collection: (name: string) => ({
+      updateMany: async (filter: Doc, change: Doc | Doc[]) => {
+        const docs = collections[name] || [];
+        let modifiedCount = 0;
+        docs.forEach((doc, i) => {
+          if (!new Query(filter).test(doc)) return;
+          const before = JSON.stringify(doc);
+          const next = Array.isArray(change)
+            ? (new Aggregator(change).run([doc])[0] as Doc)
+            : (update(doc, change as Parameters<typeof update>[1]), doc);
+          docs[i] = next;
+          if (JSON.stringify(next) !== before) modifiedCount++;
+        });
+        return { modifiedCount };
+      },
+      indexes: async () => {
+        if (!indexes[name]) throw Object.assign(new Error("ns not found"), { code: 26 });
+        return indexes[name].map((index) => ({ name: index }));
+      },
+      dropIndex: async (index: string) => {
+        indexes[name] = indexes[name].filter((i) => i !== index);
+      },
+    }),
+  }) as unknown as Db;
+
+describe("001-chat-session-topic", () => {
+  it("adds a null topic where it is missing", async () => {
+    const sessions = [{ _id: 1 }, { _id: 2, topic: "Sleep" }];
+
+    await chatSessionTopic.up(fakeDb({ chatsessions: sessions }));
+
+    expect(sessions).toEqual([{ _id: 1, topic: null }, { _id: 2, topic: "Sleep" }]);
+  });
+});
+
+describe("002-normalize-chat-sessions", () => {
+  const started = new Date("2024-01-01T10:00:00Z");
+  const replied = new Date("2024-01-01T10:05:00Z");
+  const legacySession = () => ({
+    _id: 1,
+    messages: [
+      { role: "user", content: "hi", timestamp: started, metadata: { currentGoal: "sleep better" } },
+      { role: "assistant", content: "hello", timestamp: replied, metadata: {} },
+    ],
+  });
+
+  it("backfills status, timestamps and summary progress", async () => {
+    const sessions: Doc[] = [legacySession()];
+
+    await normalizeChatSessions.up(fakeDb({ chatsessions: sessions }));
+
+    expect(sessions[0]).toMatchObject({
+      status: "active",
+      summarizedUntil: 0,
+      createdAt: started,
+      startTime: started,
+      updatedAt: replied,
+    });
+  });
+
+  it("leaves current sessions alone", async () => {
+    const current = {
+      ...legacySession(),
+      status: "completed",
+      startTime: replied,
+      createdAt: replied,
+      updatedAt: replied,
+      summarizedUntil: 2,
+      messages: [{ role: "user", content: "hi", timestamp: started, metadata: { goal: "abc" } }],
+    };
+    const sessions: Doc[] = [structuredClone(current)];
+
+    await normalizeChatSessions.up(fakeDb({ chatsessions: sessions }));
+
+    expect(sessions[0]).toEqual(current);
+  });
+
+  it("moves free-text goals out of the goal id field and back on down", async () => {
+    const sessions: Doc[] = [legacySession()];
+    const db = fakeDb({ chatsessions: sessions });
+
+    await normalizeChatSessions.up(db);
+    expect(sessions[0].messages.map((m: Doc) => m.metadata)).toEqual([
+      { legacyGoal: "sleep better" },
+      {},
+    ]);
+
+    await normalizeChatSessions.down(db);
+    expect(sessions[0].messages.map((m: Doc) => m.metadata)).toEqual([
+      { currentGoal: "sleep better" },
+      {},
+    ]);
+  });
+});
+
+describe("003-drop-legacy-session-token-index", () => {
+  it("drops the old unique token index", async () => {
+    const indexes = { sessions: ["_id_", "token_1", "userId_1"] };
+
+    await dropLegacySessionTokenIndex.up(fakeDb({}, indexes));
+
+    expect(indexes.sessions).toEqual(["_id_", "userId_1"]);
+  });
+
+  it("does nothing without a sessions collection", async () => {
+    await expect(dropLegacySessionTokenIndex.up(fakeDb({}))).resolves.toBeUndefined();
+  });
+});
+
+describe("migration runner", () => {
+  const registered = [...migrations];
+  const applied: string[] = [];
+  const reverted: string[] = [];
+  const fake = (name: string, fail = false): MigrationDefinition => ({
+    name,
+    up: async () => {
+      if (fail) throw new Error(`${name} failed`);
+      applied.push(name);
+    },
+    down: async () => {
+      reverted.push(name);
+    },
+  });
+
+  beforeEach(() => {
+    applied.length = 0;
+    reverted.length = 0;
+  });
+
+  // The runner reads the live connection's database, which unit tests never open
+  beforeAll(() => {
+    Object.assign(mongoose.connection, { db: fakeDb({}) });
+  });
+
+  afterAll(() => {
+    Object.assign(mongoose.connection, { db: undefined });
+  });
+
+  afterEach(() => {
+    migrations.splice(0, migrations.length, ...registered);
+  });
+
+  it("applies pending migrations in order and records each one", async () => {
+    migrations.splice(0, migrations.length, fake("001-a"), fake("002-b"), fake("003-c"));
+    jest.spyOn(Migration, "find").mockResolvedValue([new Migration({ name: "001-a" })]);
+    const create = jest.spyOn(Migration, "create").mockResolvedValue([]);
+
+    expect(await migrateUp()).toEqual(["002-b", "003-c"]);
+    expect(applied).toEqual(["002-b", "003-c"]);
+    expect(create.mock.calls.map(([record]) => record)).toEqual([
+      { name: "002-b" },
+      { name: "003-c" },
+    ]);
+  });
+
+  it("stops at the first failure without recording it", async () => {
+    migrations.splice(0, migrations.length, fake("001-a"), fake("002-b", true), fake("003-c"));
+    jest.spyOn(Migration, "find").mockResolvedValue([]);
+    const create = jest.spyOn(Migration, "create").mockResolvedValue([]);
+
+    await expect(migrateUp()).rejects.toThrow("002-b failed");
+    expect(applied).toEqual(["001-a"]);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it("reverts the newest migrations first and forgets them", async () => {
+    migrations.splice(0, migrations.length, fake("001-a"), fake("002-b"), fake("003-c"));
+    const records = [new Migration({ name: "003-c" }), new Migration({ name: "002-b" })];
+    const deleted = records.map((record) =>
+      jest.spyOn(record, "deleteOne").mockResolvedValue(record),
+    );
+    const limit = jest.fn().mockResolvedValue(records);
+    const sort = jest.fn().mockReturnValue({ limit });
+    jest.spyOn(Migration, "find").mockReturnValue({ sort } as unknown as ReturnType<typeof Migration.find>);
+
+    expect(await migrateDown(2)).toEqual(["003-c", "002-b"]);
+    expect(reverted).toEqual(["003-c", "002-b"]);
+    expect(limit).toHaveBeenCalledWith(2);
+    deleted.forEach((deleteOne) => expect(deleteOne).toHaveBeenCalled());
+  });
+});
@@ -0,0 +1,11 @@
+import mongoose from "mongoose";
+
+export type Db = mongoose.mongo.Db;
+
+// Migrations work on the raw collections so model hooks (encryption,
+// defaults) never run against half-migrated documents
+export interface MigrationDefinition {
+  name: string;
+  up: (db: Db) => Promise<void>;
+  down: (db: Db) => Promise<void>;
+}
@@ -6,6 +6,8 @@ export interface IActivity extends Document {
     name: string;
     description: string;
     duration: number; // in minutes
+    difficulty?: number; // 1 (easy) - 5 (hard)
+    feedback?: string;
     timestamp: Date;
 }
 
@@ -18,16 +20,11 @@ const activitySchema = new Schema<IActivity>(
     index: true,
   },
   type: {
+      // One of DEFAULT_ACTIVITY_TYPES or a user's custom ActivityType name
       type: String,
       required: true,
-      enum: [
-        "meditation",
-        "exercise",
-        "walking",
-        "reading",
-        "journaling",
-        "therapy",
-      ],
+      trim: true,
+      lowercase: true,
     },
    name: {
       type: String,
@@ -40,6 +37,15 @@ const activitySchema = new Schema<IActivity>(
       type: Number,
       min: 0,
     },
+    difficulty: {
+      type: Number,
+      min: 1,
+      max: 5,
+    },
+    feedback: {
+      type: String,
+      trim: true,
+    },
     timestamp: {
       type: Date,
       default: Date.now,
@@ -0,0 +1,57 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Types every user can log without defining them first
+export const DEFAULT_ACTIVITY_TYPES = [
+  "meditation",
+  "exercise",
+  "walking",
+  "reading",
+  "journaling",
+  "therapy",
+];
+
+export interface IActivityType extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string; // slug stored on Activity.type
+  label: string;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const activityTypeSchema = new Schema<IActivityType>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+      maxlength: 50,
+    },
+    label: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+activityTypeSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+export const ActivityType = mongoose.model<IActivityType>(
+  "ActivityType",
+  activityTypeSchema
+);
@@ -0,0 +1,48 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type AuditAction =
+  | "account.exported"
+  | "account.deletion_requested"
+  | "account.deletion_cancelled"
+  | "account.deleted";
+
+// Audit records outlive the account, so they hold ids and counts only,
+// never personal content
+export interface IAuditLog extends Document {
+  userId: mongoose.Types.ObjectId;
+  action: AuditAction;
+  details?: Record<string, any>;
+  ipAddress?: string;
+  createdAt: Date;
+}
+
+const auditLogSchema = new Schema<IAuditLog>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      index: true,
+    },
+    action: {
+      type: String,
+      enum: [
+        "account.exported",
+        "account.deletion_requested",
+        "account.deletion_cancelled",
+        "account.deleted",
+      ],
+      required: true,
+    },
+    details: {
+      type: Schema.Types.Mixed,
+    },
+    ipAddress: {
+      type: String,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+export const AuditLog = mongoose.model<IAuditLog>("AuditLog", auditLogSchema);
@@ -0,0 +1,54 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type AuthTokenType = "password_reset" | "email_verification";
+
+export interface IAuthToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  type: AuthTokenType;
+  tokenHash: string;
+  email: string; // address the token was sent to
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+const authTokenSchema = new Schema<IAuthToken>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ["password_reset", "email_verification"],
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    email: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+authTokenSchema.index({ userId: 1, type: 1 });
+
+// Index for automatic cleanup of expired tokens
+authTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const AuthToken = mongoose.model<IAuthToken>("AuthToken", authTokenSchema);
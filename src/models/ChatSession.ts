@@ -1,56 +0,0 @@
-import { Document, Schema, model, models, Types } from "mongoose";
-
-export interface IChatMessage {
-  role: "user" | "assistant";
-  content: string;
-  timestamp: Date;
-  metadata?: {
-    analysis?: any;
-    currentGoal?: string | null;
-    progress?: {
-      emotionalState?: string;
-      riskLevel?: number;
-    };
-  };
-}
-
-export interface IChatSession extends Document {
-  _id: Types.ObjectId;
-  sessionId: string;
-  userId: Types.ObjectId;
-  startTime: Date;
-  status: "active" | "completed" | "archived";
-  messages: IChatMessage[];
-}
-
-const chatMessageSchema = new Schema<IChatMessage>({
-  role: { type: String, required: true, enum: ["user", "assistant"] },
-  content: { type: String, required: true },
-  timestamp: { type: Date, required: true },
-  metadata: {
-    analysis: Schema.Types.Mixed,
-    currentGoal: String,
-    progress: {
-      emotionalState: String,
-      riskLevel: Number,
-    },
-  },
-});
-
-const chatSessionSchema = new Schema<IChatSession>({
-  sessionId: { type: String, required: true, unique: true },
-  userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
-  startTime: { type: Date, required: true },
-  status: {
-    type: String,
-    required: true,
-    enum: ["active", "completed", "archived"],
-  },
-  messages: [chatMessageSchema],
-});
-
-// Check if model already exists before creating it
-export const ChatSession = models.ChatSession || model<IChatSession>(
-  "ChatSession",
-  chatSessionSchema
-);
\ No newline at end of file
@@ -0,0 +1,45 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Per-user data encryption key, stored wrapped (encrypted) by a master key
+export interface IDataKey extends Document {
+  userId: mongoose.Types.ObjectId;
+  wrappedKey: string;
+  masterKeyId: string;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const dataKeySchema = new Schema<IDataKey>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    wrappedKey: {
+      type: String,
+      required: true,
+    },
+    masterKeyId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// At most one active key per user
+dataKeySchema.index(
+  { userId: 1 },
+  { unique: true, partialFilterExpression: { active: true } }
+);
+
+export const DataKey = mongoose.model<IDataKey>("DataKey", dataKeySchema);
@@ -0,0 +1,92 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { encryptGoalFields } from "../utils/secureFields";
+
+export type GoalStatus =
+  | "proposed"
+  | "active"
+  | "completed"
+  | "abandoned"
+  | "declined";
+
+export interface IProgressNote {
+  _id?: mongoose.Types.ObjectId;
+  note: string;
+  indicators: string[];
+  sessionId?: string;
+  messageId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+export interface IGoal extends Document {
+  userId: mongoose.Types.ObjectId;
+  title: string;
+  description?: string;
+  status: GoalStatus;
+  source: "user" | "assistant";
+  sessionId?: string; // session the assistant proposed it in
+  targetDate?: Date;
+  completedAt?: Date;
+  progressNotes: IProgressNote[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const goalSchema = new Schema<IGoal>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 200,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: ["proposed", "active", "completed", "abandoned", "declined"],
+      default: "active",
+    },
+    source: {
+      type: String,
+      enum: ["user", "assistant"],
+      default: "user",
+    },
+    sessionId: {
+      type: String,
+    },
+    targetDate: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+    progressNotes: [
+      {
+        note: { type: String, required: true },
+        indicators: [String],
+        sessionId: String,
+        messageId: Schema.Types.ObjectId,
+        createdAt: { type: Date, default: Date.now },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+goalSchema.index({ userId: 1, status: 1, updatedAt: -1 });
+
+// Progress notes are encrypted at rest
+goalSchema.pre("save", async function () {
+  await encryptGoalFields(this);
+});
+
+export const Goal = mongoose.model<IGoal>("Goal", goalSchema);
@@ -0,0 +1,72 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { LLM_CALL_OUTCOMES, LLMCallOutcome } from "../llm/types";
+
+const RETENTION_DAYS = Number(process.env.LLM_CALL_RETENTION_DAYS) || 90;
+
+// One record per model call, for cost accounting. Never holds prompt text.
+export interface ILLMCall extends Document {
+  userId?: mongoose.Types.ObjectId;
+  provider: string;
+  llmModel: string; // "model" is reserved on documents
+  task: string;
+  promptTokens: number;
+  responseTokens: number;
+  estimatedTokens: boolean; // the provider did not report real counts
+  costUsd?: number; // missing when the model has no known price
+  latencyMs: number;
+  outcome: LLMCallOutcome;
+  createdAt: Date;
+}
+
+const llmCallSchema = new Schema<ILLMCall>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    llmModel: {
+      type: String,
+      required: true,
+    },
+    task: {
+      type: String,
+      required: true,
+    },
+    promptTokens: {
+      type: Number,
+      default: 0,
+    },
+    responseTokens: {
+      type: Number,
+      default: 0,
+    },
+    estimatedTokens: {
+      type: Boolean,
+      default: false,
+    },
+    costUsd: {
+      type: Number,
+    },
+    latencyMs: {
+      type: Number,
+      required: true,
+    },
+    outcome: {
+      type: String,
+      enum: LLM_CALL_OUTCOMES,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+llmCallSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_DAYS * 24 * 60 * 60 });
+llmCallSchema.index({ userId: 1, createdAt: -1 });
+
+export const LLMCall = mongoose.model<ILLMCall>("LLMCall", llmCallSchema);
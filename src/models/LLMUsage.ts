@@ -0,0 +1,45 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// One record per user, model and UTC day; used for daily quotas
+export interface ILLMUsage extends Document {
+  userId: mongoose.Types.ObjectId;
+  day: string; // YYYY-MM-DD (UTC)
+  llmModel: string; // "model" is reserved on documents
+  calls: number;
+  tokens: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const llmUsageSchema = new Schema<ILLMUsage>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    day: {
+      type: String,
+      required: true,
+    },
+    llmModel: {
+      type: String,
+      required: true,
+    },
+    calls: {
+      type: Number,
+      default: 0,
+    },
+    tokens: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+llmUsageSchema.index({ userId: 1, day: 1, llmModel: 1 }, { unique: true });
+
+export const LLMUsage = mongoose.model<ILLMUsage>("LLMUsage", llmUsageSchema);
@@ -0,0 +1,21 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// One record per applied migration; see src/migrations
+export interface IMigration extends Document {
+  name: string;
+  appliedAt: Date;
+}
+
+const migrationSchema = new Schema<IMigration>({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  appliedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+export const Migration = mongoose.model<IMigration>("Migration", migrationSchema);
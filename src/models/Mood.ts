@@ -1,4 +1,5 @@
  import mongoose, { Schema, Document } from "mongoose";
+import { encryptMoodFields } from "../utils/secureFields";
 
 export interface IMood extends Document {
   userId: mongoose.Types.ObjectId;
@@ -39,6 +40,11 @@ const moodSchema = new Schema<IMood>(
 // Index for efficient querying of user's mood history
 moodSchema.index({ userId: 1, timestamp: -1 });
 
+// Notes are encrypted at rest
+moodSchema.pre("save", async function () {
+  await encryptMoodFields(this);
+});
+
 const Mood = mongoose.model<IMood>("Mood", moodSchema);
 
 export { Mood };
\ No newline at end of file
@@ -0,0 +1,32 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Fixed-window counter used by the Mongo rate limit store
+export interface IRateLimitCounter extends Document {
+  key: string;
+  count: number;
+  resetAt: Date;
+}
+
+const rateLimitCounterSchema = new Schema<IRateLimitCounter>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  count: {
+    type: Number,
+    default: 0,
+  },
+  resetAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+// Let MongoDB clean up windows that have ended
+rateLimitCounterSchema.index({ resetAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RateLimitCounter = mongoose.model<IRateLimitCounter>(
+  "RateLimitCounter",
+  rateLimitCounterSchema
+);
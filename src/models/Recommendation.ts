@@ -0,0 +1,78 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type RecommendationStatus =
+  | "pending"
+  | "accepted"
+  | "dismissed"
+  | "superseded";
+
+export type RecommendationDifficulty = "easy" | "moderate" | "challenging";
+
+export interface IRecommendation extends Document {
+  userId: mongoose.Types.ObjectId;
+  title: string;
+  type?: string; // activity type the user could log it as
+  reasoning: string;
+  benefits: string[];
+  difficulty: RecommendationDifficulty;
+  duration?: number; // in minutes
+  status: RecommendationStatus;
+  feedback?: string; // why the user dismissed it
+  respondedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const recommendationSchema = new Schema<IRecommendation>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    type: {
+      type: String,
+    },
+    reasoning: {
+      type: String,
+      required: true,
+    },
+    benefits: [String],
+    difficulty: {
+      type: String,
+      enum: ["easy", "moderate", "challenging"],
+      default: "easy",
+    },
+    duration: {
+      type: Number,
+      min: 0,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "accepted", "dismissed", "superseded"],
+      default: "pending",
+    },
+    feedback: {
+      type: String,
+      trim: true,
+    },
+    respondedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+recommendationSchema.index({ userId: 1, status: 1, createdAt: -1 });
+
+export const Recommendation = mongoose.model<IRecommendation>(
+  "Recommendation",
+  recommendationSchema
+);
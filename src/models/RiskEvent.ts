@@ -0,0 +1,71 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// "analysis" is the message analysis run by the Inngest workflow
+export type RiskSource = "prescreen" | "analysis";
+
+export interface IRiskEvent extends Document {
+  userId: mongoose.Types.ObjectId;
+  sessionId: string;
+  messageId: mongoose.Types.ObjectId;
+  riskLevel: number;
+  sources: RiskSource[];
+  matches: string[];
+  locale?: string;
+  status: "open" | "acknowledged" | "resolved";
+  escalatedAt?: Date;
+  escalatedVia?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const riskEventSchema = new Schema<IRiskEvent>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    sessionId: {
+      type: String,
+      required: true,
+    },
+    messageId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    riskLevel: {
+      type: Number,
+      required: true,
+    },
+    sources: [
+      {
+        type: String,
+        enum: ["prescreen", "analysis"],
+      },
+    ],
+    matches: [String],
+    locale: {
+      type: String,
+    },
+    status: {
+      type: String,
+      enum: ["open", "acknowledged", "resolved"],
+      default: "open",
+    },
+    escalatedAt: {
+      type: Date,
+    },
+    escalatedVia: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One record per flagged message
+riskEventSchema.index({ sessionId: 1, messageId: 1 }, { unique: true });
+
+export const RiskEvent = mongoose.model<IRiskEvent>("RiskEvent", riskEventSchema);
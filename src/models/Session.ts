@@ -2,18 +2,24 @@ import mongoose, {Document, Schema} from "mongoose";
 
 export interface ISession extends Document {
   userId: mongoose.Types.ObjectId;
-  token: string;
+  refreshTokenHash: string;
+  previousRefreshTokenHash?: string; // last rotated-out token, to detect reuse
   expiresAt: Date;
   deviceInfo?: string;
+  ipAddress?: string;
   lastActive: Date;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 const SessionSchema = new mongoose.Schema<ISession>(
   {
-    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
-    token: { type: String, required: true, unique: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    refreshTokenHash: { type: String, required: true, unique: true },
+    previousRefreshTokenHash: { type: String, index: true },
     expiresAt: { type: Date, required: true },
     deviceInfo: { type: String },
+    ipAddress: { type: String },
     lastActive: { type: Date, default: Date.now },
   },
   { timestamps: true }
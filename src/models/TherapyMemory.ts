@@ -0,0 +1,86 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { encryptTherapyMemoryFields } from "../utils/secureFields";
+
+export interface IThemeCount {
+  theme: string;
+  count: number;
+  lastSeen: Date;
+}
+
+export interface IEmotionalStateEntry {
+  state: string;
+  riskLevel?: number;
+  sessionId?: string;
+  timestamp: Date;
+}
+
+export interface ILifeFact {
+  _id?: mongoose.Types.ObjectId;
+  fact: string;
+  sessionId?: string;
+  createdAt: Date;
+}
+
+export interface ITherapyMemory extends Document {
+  userId: mongoose.Types.ObjectId;
+  recurringThemes: IThemeCount[];
+  emotionalStates: IEmotionalStateEntry[];
+  preferences: Map<string, string>;
+  lifeFacts: ILifeFact[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const therapyMemorySchema = new Schema<ITherapyMemory>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      unique: true,
+    },
+    recurringThemes: [
+      {
+        _id: false,
+        theme: { type: String, required: true },
+        count: { type: Number, default: 1 },
+        lastSeen: { type: Date, default: Date.now },
+      },
+    ],
+    emotionalStates: [
+      {
+        _id: false,
+        state: { type: String, required: true },
+        riskLevel: Number,
+        sessionId: String,
+        timestamp: { type: Date, default: Date.now },
+      },
+    ],
+    preferences: {
+      type: Map,
+      of: String,
+      default: {},
+    },
+    lifeFacts: [
+      {
+        // Length is limited on input: the stored value is ciphertext
+        fact: { type: String, required: true },
+        sessionId: String,
+        createdAt: { type: Date, default: Date.now },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Emotional states, life facts and preferences are encrypted at rest
+therapyMemorySchema.pre("save", async function () {
+  await encryptTherapyMemoryFields(this);
+});
+
+export const TherapyMemory = mongoose.model<ITherapyMemory>(
+  "TherapyMemory",
+  therapyMemorySchema
+);
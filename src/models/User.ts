@@ -2,10 +2,43 @@
 // import e from "express";
 import mongoose, {Document, Schema} from "mongoose";
 
+export const THERAPEUTIC_STYLES = [
+  "supportive",
+  "cognitive_behavioral",
+  "mindfulness",
+  "solution_focused",
+  "motivational",
+] as const;
+export const RESPONSE_LENGTHS = ["short", "medium", "long"] as const;
+
+export interface IUserPreferences {
+  timezone: string;
+  therapeuticStyle: (typeof THERAPEUTIC_STYLES)[number];
+  responseLength: (typeof RESPONSE_LENGTHS)[number];
+  // BCP 47 tag, e.g. "en" or "es-MX"; unset until the user picks one, so
+  // the Accept-Language header decides meanwhile
+  language?: string;
+  reminders: {
+    enabled: boolean;
+    time: string; // "HH:mm" in the user's timezone
+    days: number[]; // 0 = Sunday
+  };
+}
+
+export type UserRole = "user" | "admin";
+
 export interface IUser extends Document {
   name: string;
   email: string;
   password: string;
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
+  role: UserRole; // admins are promoted directly in the database
+  preferences: IUserPreferences;
+  deletionRequestedAt?: Date;
+  deletionScheduledFor?: Date; // data is erased after this grace period
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 const UserSchema = new Schema<IUser>(
@@ -13,9 +46,35 @@ const UserSchema = new Schema<IUser>(
     name: { type: String, required: true },
     email: { type: String, required: true, unique: true },
     password: { type: String, required: true},
+    emailVerified: { type: Boolean, default: false },
+    emailVerifiedAt: { type: Date },
+    role: { type: String, enum: ["user", "admin"], default: "user" },
+    preferences: {
+      timezone: { type: String, default: "UTC" },
+      therapeuticStyle: { type: String, enum: THERAPEUTIC_STYLES, default: "supportive" },
+      responseLength: { type: String, enum: RESPONSE_LENGTHS, default: "medium" },
+      language: { type: String },
+      reminders: {
+        enabled: { type: Boolean, default: false },
+        time: { type: String, default: "20:00", match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+        days: { type: [Number], default: [0, 1, 2, 3, 4, 5, 6] },
+      },
+    },
+    deletionRequestedAt: { type: Date },
+    deletionScheduledFor: { type: Date },
   },
-  { timestamps: true }
+  {
+    timestamps: true,
+    toJSON: {
+      // Never send the password hash to a client
+      transform: (_doc, ret: Record<string, any>) => {
+        delete ret.password;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
 );
 
 
-export const User = mongoose.model<IUser>("User", UserSchema);
\ No newline at end of file
+export const User = mongoose.model<IUser>("User", UserSchema);
@@ -1,16 +1,60 @@
 // backend/src/models/chat.ts
 import mongoose, { Schema, Document, Types } from "mongoose";
+import { encryptChatSessionFields } from "../utils/secureFields";
+
+// Analysis runs in the background (see processChatMessage); replies are
+// stored as pending and updated once it finishes
+export type MessageAnalysisStatus = "pending" | "completed" | "failed";
 
 export interface IChatMessage {
+  _id?: Types.ObjectId;
   role: "user" | "assistant";
   content: string;
   timestamp: Date;
   metadata?: {
     technique?: string;
-    goal?: string;
-    progress?: any;
-    analysis?: any; // From controller
+    goal?: string; // id of the active goal the reply was working towards
+    legacyGoal?: string; // free-text goal from the old session model
+    progress?: {
+      emotionalState?: string;
+      riskLevel?: number;
+    };
+    analysis?: any; // MessageAnalysis, encrypted at rest
+    analysisStatus?: MessageAnalysisStatus;
+  };
+}
+
+export type ChatSessionStatus = "active" | "paused" | "completed" | "archived";
+export const CHAT_SESSION_STATUSES: ChatSessionStatus[] = [
+  "active",
+  "paused",
+  "completed",
+  "archived",
+];
+
+// Which statuses each lifecycle action may move a session out of
+export const SESSION_TRANSITIONS: Record<
+  "complete" | "pause" | "resume" | "archive",
+  { from: ChatSessionStatus[]; to: ChatSessionStatus }
+> = {
+  complete: { from: ["active", "paused"], to: "completed" },
+  pause: { from: ["active"], to: "paused" },
+  resume: { from: ["paused"], to: "active" },
+  archive: { from: ["active", "paused", "completed"], to: "archived" },
+};
+
+// Written by the session-summary Inngest job when a session is completed
+export interface ISessionSummary {
+  overview: string;
+  themes: string[];
+  moodShift: {
+    start?: string;
+    end?: string;
+    direction: "improved" | "unchanged" | "worsened" | "unclear";
   };
+  techniques: string[];
+  homework: string[];
+  generatedAt: Date;
 }
 
 export interface IChatSession extends Document {
@@ -18,8 +62,14 @@ export interface IChatSession extends Document {
   userId: Types.ObjectId; // From controller
   messages: IChatMessage[];
   topic?: string; // NEW: AI-generated topic field
+  topicSource?: "auto" | "user"; // "user" stops automatic retitling
+  topicMessageCount?: number; // Message count when the topic was last generated or checked
+  summary?: string; // Rolling summary of turns that fell out of the history window
+  summarizedUntil?: number; // Number of leading messages folded into summary
   startTime: Date; // From controller
-  status: string; // From controller
+  status: ChatSessionStatus;
+  endTime?: Date; // When the session was completed
+  closingSummary?: ISessionSummary | string; // Encrypted at rest
   createdAt: Date;
   updatedAt: Date;
 }
@@ -39,11 +89,19 @@ const chatMessageSchema = new Schema<IChatMessage>({
     default: Date.now,
   },
   metadata: {
-  technique: String,
-  goal: String,
-  progress: Schema.Types.Mixed, 
-  analysis: Schema.Types.Mixed,
-},
+    technique: String,
+    goal: String,
+    legacyGoal: String,
+    progress: {
+      emotionalState: String,
+      riskLevel: Number,
+    },
+    analysis: Schema.Types.Mixed,
+    analysisStatus: {
+      type: String,
+      enum: ["pending", "completed", "failed"],
+    },
+  },
 });
 
 const chatSessionSchema = new Schema<IChatSession>(
@@ -64,23 +122,50 @@ const chatSessionSchema = new Schema<IChatSession>(
       required: false,
       maxlength: 100, // Limit topic length
     }, // NEW: Topic field
+    topicSource: {
+      type: String,
+      enum: ["auto", "user"],
+    },
+    topicMessageCount: {
+      type: Number,
+    },
+    summary: {
+      type: String,
+    },
+    summarizedUntil: {
+      type: Number,
+      default: 0,
+    },
     startTime: {
       type: Date,
       default: Date.now,
     },
     status: {
       type: String,
-      enum: ["active", "completed", "paused"],
+      enum: CHAT_SESSION_STATUSES,
       default: "active",
     },
+    endTime: {
+      type: Date,
+    },
+    closingSummary: {
+      type: Schema.Types.Mixed,
+    },
   },
   {
     timestamps: true,
   }
 );
 
-// Check if model already exists before creating it
-export const ChatSession = mongoose.models.ChatSession || mongoose.model<IChatSession>(
+// Newest-first listing and search of a user's sessions
+chatSessionSchema.index({ userId: 1, updatedAt: -1 });
+
+// Message content, analysis and the summaries are encrypted at rest
+chatSessionSchema.pre("save", async function () {
+  await encryptChatSessionFields(this);
+});
+
+export const ChatSession = mongoose.model<IChatSession>(
   "ChatSession",
   chatSessionSchema
 );
\ No newline at end of file
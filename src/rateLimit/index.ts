@@ -0,0 +1,77 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError } from "../middleware/errorHandler";
+import { logger } from "../utils/logger";
+import { MemoryRateLimitStore } from "./memoryStore";
+import { MongoRateLimitStore } from "./mongoStore";
+import { RATE_LIMIT_POLICIES, RateLimitPolicyName } from "./policies";
+import { RateLimitStore, RateLimitStoreName } from "./types";
+
+export * from "./types";
+export { RATE_LIMIT_POLICIES } from "./policies";
+export type { RateLimitPolicyName } from "./policies";
+
+// In-memory counters suit a single instance; use RATE_LIMIT_STORE=mongo
+// when several instances serve the same users
+export const createRateLimitStore = (name: RateLimitStoreName): RateLimitStore => {
+  switch (name) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    case "mongo":
+      return new MongoRateLimitStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE: ${name}`);
+  }
+};
+
+let store: RateLimitStore | null = null;
+
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    store = createRateLimitStore(
+      (process.env.RATE_LIMIT_STORE?.toLowerCase() || "memory") as RateLimitStoreName
+    );
+    logger.info(`Using rate limit store: ${store.name}`);
+  }
+  return store;
+};
+
+// Swap the active store, e.g. for a fresh memory store in tests
+export const setRateLimitStore = (next: RateLimitStore | null) => {
+  store = next;
+};
+
+const secondsUntil = (date: Date) => Math.max(Math.ceil((date.getTime() - Date.now()) / 1000), 0);
+
+/**
+ * Limit how often a caller can hit the route, using the named policy.
+ * User-scoped policies must run after auth. If the store is unavailable
+ * the request is let through rather than taking the API down with it.
+ */
+export const rateLimit = (policyName: RateLimitPolicyName) => {
+  const policy = RATE_LIMIT_POLICIES[policyName];
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const caller =
+      policy.scope === "user" && req.user?.id ? `user:${req.user.id}` : `ip:${req.ip}`;
+
+    let hit;
+    try {
+      hit = await getRateLimitStore().hit(`${policyName}:${caller}`, policy.windowMs);
+    } catch (error) {
+      logger.error("Rate limit store failed, allowing request:", { policyName, error });
+      return next();
+    }
+
+    const retryAfter = secondsUntil(hit.resetAt);
+    res.setHeader("RateLimit-Limit", policy.max);
+    res.setHeader("RateLimit-Remaining", Math.max(policy.max - hit.count, 0));
+    res.setHeader("RateLimit-Reset", retryAfter);
+
+    if (hit.count > policy.max) {
+      logger.warn("Rate limit exceeded:", { policyName, caller });
+      res.setHeader("Retry-After", retryAfter);
+      return next(new AppError("Too many requests, please slow down", 429));
+    }
+    next();
+  };
+};
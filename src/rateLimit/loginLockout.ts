@@ -0,0 +1,63 @@
+import { logger } from "../utils/logger";
+import { getRateLimitStore } from "./index";
+
+const MAX_FAILED_LOGINS = Number(process.env.LOGIN_MAX_FAILURES) || 5;
+const MAX_FAILED_LOGINS_PER_EMAIL =
+  Number(process.env.LOGIN_MAX_FAILURES_PER_EMAIL) || MAX_FAILED_LOGINS * 10;
+const LOCKOUT_WINDOW_MS = (Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15) * 60 * 1000;
+
+// Keyed by email and IP, so failures from one client can't lock the owner out
+// from everywhere else. The looser email-only ceiling still slows down guessing
+// spread across many IPs. Unknown emails count too, so a lockout says nothing
+// about who has an account.
+const clientKey = (email: string, ip: string | undefined) =>
+  `login-failures:${email.toLowerCase()}:${ip ?? "unknown"}`;
+const emailKey = (email: string) => `login-failures:${email.toLowerCase()}`;
+
+const lockouts = (email: string, ip: string | undefined) => [
+  { key: clientKey(email, ip), max: MAX_FAILED_LOGINS },
+  { key: emailKey(email), max: MAX_FAILED_LOGINS_PER_EMAIL },
+];
+
+// Seconds until this client can try the email again, or 0 if it isn't locked
+export const getLoginLockout = async (email: string, ip: string | undefined) => {
+  try {
+    const store = getRateLimitStore();
+    let lockedFor = 0;
+    for (const { key, max } of lockouts(email, ip)) {
+      const failures = await store.get(key);
+      if (!failures || failures.count < max) continue;
+      const seconds = Math.max(Math.ceil((failures.resetAt.getTime() - Date.now()) / 1000), 1);
+      lockedFor = Math.max(lockedFor, seconds);
+    }
+    return lockedFor;
+  } catch (error) {
+    logger.error("Could not check login lockout:", error);
+    return 0;
+  }
+};
+
+export const recordFailedLogin = async (email: string, ip: string | undefined) => {
+  try {
+    const store = getRateLimitStore();
+    for (const { key, max } of lockouts(email, ip)) {
+      const failures = await store.hit(key, LOCKOUT_WINDOW_MS);
+      if (failures.count === max) {
+        logger.warn("Login locked after repeated failures");
+      }
+    }
+  } catch (error) {
+    logger.error("Could not record failed login:", error);
+  }
+};
+
+export const clearFailedLogins = async (email: string, ip: string | undefined) => {
+  try {
+    const store = getRateLimitStore();
+    for (const { key } of lockouts(email, ip)) {
+      await store.reset(key);
+    }
+  } catch (error) {
+    logger.error("Could not clear failed logins:", error);
+  }
+};
@@ -0,0 +1,41 @@
+import { RateLimitHit, RateLimitStore } from "./types";
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Counters for a single process; they reset when the server restarts
+export class MemoryRateLimitStore implements RateLimitStore {
+  name = "memory";
+  private windows = new Map<string, RateLimitHit>();
+
+  constructor() {
+    setInterval(() => this.sweep(), SWEEP_INTERVAL_MS).unref();
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    let entry = this.windows.get(key);
+    if (!entry || entry.resetAt.getTime() <= now) {
+      entry = { count: 0, resetAt: new Date(now + windowMs) };
+      this.windows.set(key, entry);
+    }
+    entry.count++;
+    return { ...entry };
+  }
+
+  async get(key: string): Promise<RateLimitHit | null> {
+    const entry = this.windows.get(key);
+    if (!entry || entry.resetAt.getTime() <= Date.now()) return null;
+    return { ...entry };
+  }
+
+  async reset(key: string) {
+    this.windows.delete(key);
+  }
+
+  private sweep() {
+    const now = Date.now();
+    for (const [key, entry] of this.windows) {
+      if (entry.resetAt.getTime() <= now) this.windows.delete(key);
+    }
+  }
+}
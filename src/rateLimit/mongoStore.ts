@@ -0,0 +1,40 @@
+import { RateLimitCounter } from "../models/RateLimitCounter";
+import { RateLimitHit, RateLimitStore } from "./types";
+
+// Counters shared by every server instance using the same database
+export class MongoRateLimitStore implements RateLimitStore {
+  name = "mongo";
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = new Date();
+    const open = { $gt: ["$resetAt", now] };
+
+    // One atomic upsert: count within the open window or start a new one
+    const counter = await RateLimitCounter.findOneAndUpdate(
+      { key },
+      [
+        {
+          $set: {
+            count: { $cond: [open, { $add: ["$count", 1] }, 1] },
+            resetAt: { $cond: [open, "$resetAt", new Date(now.getTime() + windowMs)] },
+          },
+        },
+      ],
+      { upsert: true, new: true }
+    ).lean();
+
+    return { count: counter!.count, resetAt: counter!.resetAt };
+  }
+
+  async get(key: string): Promise<RateLimitHit | null> {
+    const counter = await RateLimitCounter.findOne({
+      key,
+      resetAt: { $gt: new Date() },
+    }).lean();
+    return counter && { count: counter.count, resetAt: counter.resetAt };
+  }
+
+  async reset(key: string) {
+    await RateLimitCounter.deleteOne({ key });
+  }
+}
@@ -0,0 +1,26 @@
+import { RateLimitPolicy } from "./types";
+
+const MINUTE = 60 * 1000;
+
+// Per-route limits. LLM-backed routes are the expensive ones; auth routes
+// are counted per IP since the caller is not logged in yet.
+export const RATE_LIMIT_POLICIES = {
+  // Baseline for every authenticated API route
+  api: { windowMs: MINUTE, max: 120, scope: "user" },
+  // Each message costs a reply and an analysis call
+  chatMessage: {
+    windowMs: MINUTE,
+    max: Number(process.env.RATE_LIMIT_MESSAGES_PER_MINUTE) || 20,
+    scope: "user",
+  },
+  topic: { windowMs: MINUTE, max: 10, scope: "user" },
+  // Search decrypts every session the user has
+  search: { windowMs: MINUTE, max: 30, scope: "user" },
+  login: { windowMs: 15 * MINUTE, max: 30, scope: "ip" },
+  register: { windowMs: 60 * MINUTE, max: 10, scope: "ip" },
+  refresh: { windowMs: MINUTE, max: 30, scope: "ip" },
+  // Routes that send email or check one-time tokens
+  authEmail: { windowMs: 15 * MINUTE, max: 5, scope: "ip" },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
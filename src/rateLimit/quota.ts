@@ -0,0 +1,117 @@
+import { Request, Response, NextFunction } from "express";
+import { Types } from "mongoose";
+import { LLMUsage } from "../models/LLMUsage";
+import { AppError } from "../middleware/errorHandler";
+import { getLLMProvider } from "../llm";
+import { logger } from "../utils/logger";
+
+export interface DailyQuota {
+  calls: number;
+  tokens: number;
+}
+
+const DEFAULT_QUOTA: DailyQuota = {
+  calls: Number(process.env.LLM_DAILY_CALL_QUOTA) || 300,
+  tokens: Number(process.env.LLM_DAILY_TOKEN_QUOTA) || 300000,
+};
+
+// Per-model overrides, e.g. LLM_MODEL_QUOTAS={"gemini-1.5-pro":{"calls":100}}
+const parseModelQuotas = (): Record<string, Partial<DailyQuota>> => {
+  if (!process.env.LLM_MODEL_QUOTAS) return {};
+  try {
+    return JSON.parse(process.env.LLM_MODEL_QUOTAS);
+  } catch {
+    logger.error("LLM_MODEL_QUOTAS is not valid JSON, using default quotas");
+    return {};
+  }
+};
+
+const MODEL_QUOTAS = parseModelQuotas();
+
+export const getDailyQuota = (model: string): DailyQuota => ({
+  ...DEFAULT_QUOTA,
+  ...MODEL_QUOTAS[model],
+});
+
+// Quotas reset at midnight UTC
+export const usageDay = (date = new Date()) => date.toISOString().substring(0, 10);
+
+export const nextUsageReset = (now = new Date()) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+
+// Called for every model call made on a user's behalf (see llm/metered)
+export const recordLLMUsage = async (userId: string, model: string, tokens: number) => {
+  if (!Types.ObjectId.isValid(userId)) return;
+  await LLMUsage.updateOne(
+    { userId: new Types.ObjectId(userId), day: usageDay(), llmModel: model },
+    { $inc: { calls: 1, tokens } },
+    { upsert: true }
+  );
+};
+
+export interface ModelUsage {
+  model: string;
+  calls: number;
+  tokens: number;
+  quota: DailyQuota;
+  remaining: DailyQuota;
+}
+
+// Today's usage per model; the current model is always listed
+export const getDailyUsage = async (userId: Types.ObjectId | string): Promise<ModelUsage[]> => {
+  const records = await LLMUsage.find({
+    userId: new Types.ObjectId(String(userId)),
+    day: usageDay(),
+  }).lean();
+
+  const byModel = new Map(records.map((r) => [r.llmModel, r]));
+  const current = getLLMProvider().model;
+  const models = byModel.has(current) ? [...byModel.keys()] : [...byModel.keys(), current];
+
+  return models.map((model) => {
+    const record = byModel.get(model);
+    const quota = getDailyQuota(model);
+    const calls = record?.calls || 0;
+    const tokens = record?.tokens || 0;
+    return {
+      model,
+      calls,
+      tokens,
+      quota,
+      remaining: {
+        calls: Math.max(quota.calls - calls, 0),
+        tokens: Math.max(quota.tokens - tokens, 0),
+      },
+    };
+  });
+};
+
+/**
+ * Refuse LLM-backed requests once the user has used up today's quota for
+ * the model that would serve them. Must run after auth.
+ */
+export const enforceLLMQuota = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) return next();
+
+    const model = getLLMProvider().model;
+    const usage = await LLMUsage.findOne({
+      userId: new Types.ObjectId(String(req.user.id)),
+      day: usageDay(),
+      llmModel: model,
+    }).lean();
+
+    const quota = getDailyQuota(model);
+    if (usage && (usage.calls >= quota.calls || usage.tokens >= quota.tokens)) {
+      logger.warn("Daily LLM quota exhausted:", { userId: String(req.user.id), model });
+      res.setHeader(
+        "Retry-After",
+        Math.ceil((nextUsageReset().getTime() - Date.now()) / 1000)
+      );
+      throw new AppError("Daily usage limit reached, please try again tomorrow", 429, "QUOTA_EXCEEDED");
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
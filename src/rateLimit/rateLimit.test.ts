@@ -0,0 +1,143 @@
+import { Request, Response } from "express";
+import { RateLimitCounter } from "../models/RateLimitCounter";
+import { AppError } from "../middleware/errorHandler";
+import { RATE_LIMIT_POLICIES, rateLimit, setRateLimitStore } from "./index";
+import { clearFailedLogins, getLoginLockout, recordFailedLogin } from "./loginLockout";
+import { MemoryRateLimitStore } from "./memoryStore";
+import { MongoRateLimitStore } from "./mongoStore";
+import { RateLimitStore } from "./types";
+
+describe("MemoryRateLimitStore", () => {
+  afterEach(() => jest.useRealTimers());
+
+  it("counts hits within a window and starts over once it ends", async () => {
+    jest.useFakeTimers({ now: new Date("2024-01-01T12:00:00Z") });
+    const store = new MemoryRateLimitStore();
+
+    expect((await store.hit("a", 60_000)).count).toBe(1);
+    const second = await store.hit("a", 60_000);
+    expect(second).toEqual({ count: 2, resetAt: new Date("2024-01-01T12:01:00Z") });
+    expect((await store.hit("b", 60_000)).count).toBe(1);
+
+    jest.advanceTimersByTime(60_000);
+    expect(await store.get("a")).toBeNull();
+    expect((await store.hit("a", 60_000)).count).toBe(1);
+  });
+
+  it("forgets a key on reset", async () => {
+    const store = new MemoryRateLimitStore();
+    await store.hit("a", 60_000);
+    await store.reset("a");
+    expect(await store.get("a")).toBeNull();
+  });
+});
+
+describe("MongoRateLimitStore", () => {
+  it("counts a hit with a single atomic upsert", async () => {
+    const resetAt = new Date(Date.now() + 60_000);
+    const findOneAndUpdate = jest
+      .spyOn(RateLimitCounter, "findOneAndUpdate")
+      .mockReturnValue({ lean: async () => ({ key: "a", count: 3, resetAt }) } as unknown as
+        ReturnType<typeof RateLimitCounter.findOneAndUpdate>);
+
+    const hit = await new MongoRateLimitStore().hit("a", 60_000);
+
+    expect(hit).toEqual({ count: 3, resetAt });
+    expect(findOneAndUpdate).toHaveBeenCalledTimes(1);
+    const [filter, update, options] = findOneAndUpdate.mock.calls[0];
+    expect(filter).toEqual({ key: "a" });
+    expect(Array.isArray(update)).toBe(true);
+    expect(options).toMatchObject({ upsert: true, new: true });
+  });
+
+  it("only reports windows that are still open", async () => {
+    const findOne = jest
+      .spyOn(RateLimitCounter, "findOne")
+      .mockReturnValue({ lean: async () => null } as unknown as
+        ReturnType<typeof RateLimitCounter.findOne>);
+
+    expect(await new MongoRateLimitStore().get("a")).toBeNull();
+    expect(findOne.mock.calls[0][0]).toMatchObject({
+      key: "a",
+      resetAt: { $gt: expect.any(Date) },
+    });
+  });
+});
+
+describe("rateLimit", () => {
+  const run = async (policy: Parameters<typeof rateLimit>[0], req: Partial<Request>) => {
+    const headers: Record<string, unknown> = {};
+    const res = { setHeader: (name: string, value: unknown) => (headers[name] = value) };
+    const next = jest.fn();
+    await rateLimit(policy)(req as Request, res as unknown as Response, next);
+    return { headers, error: next.mock.calls[0][0] };
+  };
+
+  afterEach(() => setRateLimitStore(null));
+
+  it("rejects callers over the policy's limit with a 429", async () => {
+    setRateLimitStore(new MemoryRateLimitStore());
+    const { max } = RATE_LIMIT_POLICIES.login;
+    const req = { ip: "10.0.0.1" };
+
+    for (let i = 0; i < max; i++) {
+      expect((await run("login", req)).error).toBeUndefined();
+    }
+    const { headers, error } = await run("login", req);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.statusCode).toBe(429);
+    expect(headers["RateLimit-Remaining"]).toBe(0);
+    expect(headers["Retry-After"]).toBeGreaterThan(0);
+    // Other callers have their own window
+    expect((await run("login", { ip: "10.0.0.2" })).error).toBeUndefined();
+  });
+
+  it("counts user-scoped policies per user rather than per IP", async () => {
+    setRateLimitStore(new MemoryRateLimitStore());
+
+    await run("topic", { ip: "10.0.0.1", user: { id: "u1" } });
+    const { headers } = await run("topic", { ip: "10.0.0.1", user: { id: "u2" } });
+
+    expect(headers["RateLimit-Remaining"]).toBe(RATE_LIMIT_POLICIES.topic.max - 1);
+  });
+
+  it("lets requests through when the store fails", async () => {
+    const broken: RateLimitStore = {
+      name: "broken",
+      hit: () => Promise.reject(new Error("connection lost")),
+      get: () => Promise.resolve(null),
+      reset: () => Promise.resolve(),
+    };
+    setRateLimitStore(broken);
+
+    expect((await run("api", { ip: "10.0.0.1" })).error).toBeUndefined();
+  });
+});
+
+describe("login lockout", () => {
+  const email = "Someone@example.com";
+
+  beforeEach(() => setRateLimitStore(new MemoryRateLimitStore()));
+  afterEach(() => setRateLimitStore(null));
+
+  it("locks the email only for the client that kept failing", async () => {
+    for (let i = 0; i < 5; i++) await recordFailedLogin(email, "10.0.0.1");
+
+    expect(await getLoginLockout("someone@example.com", "10.0.0.1")).toBeGreaterThan(0);
+    expect(await getLoginLockout(email, "10.0.0.2")).toBe(0);
+  });
+
+  it("locks the email everywhere once failures from many clients pass the looser ceiling", async () => {
+    for (let i = 0; i < 50; i++) await recordFailedLogin(email, `10.0.${i}.1`);
+
+    expect(await getLoginLockout(email, "10.1.0.1")).toBeGreaterThan(0);
+  });
+
+  it("clears both counters after a successful login", async () => {
+    for (let i = 0; i < 5; i++) await recordFailedLogin(email, "10.0.0.1");
+    await clearFailedLogins(email, "10.0.0.1");
+
+    expect(await getLoginLockout(email, "10.0.0.1")).toBe(0);
+  });
+});
@@ -0,0 +1,23 @@
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+// Where rate limit counters live; every window is a fixed window
+export interface RateLimitStore {
+  name: string;
+  // Count one more hit against `key` and return the window's total
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+  // Current window without counting a hit
+  get(key: string): Promise<RateLimitHit | null>;
+  reset(key: string): Promise<void>;
+}
+
+export type RateLimitStoreName = "memory" | "mongo";
+
+export interface RateLimitPolicy {
+  windowMs: number;
+  max: number;
+  // Count per authenticated user or per client IP
+  scope: "user" | "ip";
+}
@@ -1,11 +1,63 @@
 import express from "express";
 import { auth } from "../middleware/auth";
-import { logActivity } from "../controllers/activityController";
+import { validate } from "../middleware/validate";
+import { rateLimit } from "../rateLimit";
+import { idParams } from "../validation/common";
+import {
+  activityStatsSchema,
+  createActivityTypeSchema,
+  dismissRecommendationSchema,
+  listActivitiesSchema,
+  logActivitySchema,
+  recommendationsQuerySchema,
+  updateActivitySchema,
+} from "../validation/activity";
+import {
+  logActivity,
+  getActivities,
+  getActivity,
+  updateActivity,
+  deleteActivity,
+  getActivityStats,
+  getActivityTypes,
+  createActivityType,
+  deleteActivityType,
+} from "../controllers/activityController";
+import {
+  getRecommendations,
+  acceptRecommendation,
+  dismissRecommendation,
+} from "../controllers/recommendationController";
 
 const router = express.Router();
 // All routes are protected with authentication
-router.use(auth);
+router.use(auth, rateLimit("api"));
 // Log a new activity
-router.post("/log", logActivity);
+router.post("/log", validate(logActivitySchema), logActivity);
+
+// List logged activities
+router.get("/", validate(listActivitiesSchema), getActivities);
+
+// Per-type totals and minutes over time
+router.get("/stats", validate(activityStatsSchema), getActivityStats);
+
+// Built-in and custom activity types
+router.get("/types", getActivityTypes);
+router.post("/types", validate(createActivityTypeSchema), createActivityType);
+router.delete("/types/:id", validate({ params: idParams }), deleteActivityType);
+
+// AI activity recommendations
+router.get("/recommendations", validate(recommendationsQuerySchema), getRecommendations);
+router.post("/recommendations/:id/accept", validate({ params: idParams }), acceptRecommendation);
+router.post(
+  "/recommendations/:id/dismiss",
+  validate(dismissRecommendationSchema),
+  dismissRecommendation
+);
+
+// Single activity
+router.get("/:id", validate({ params: idParams }), getActivity);
+router.patch("/:id", validate(updateActivitySchema), updateActivity);
+router.delete("/:id", validate({ params: idParams }), deleteActivity);
 
 export default router;
@@ -0,0 +1,16 @@
+import express from "express";
+import { auth, requireAdmin } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import { rateLimit } from "../rateLimit";
+import { llmUsageReportSchema } from "../validation/admin";
+import { getLLMUsage } from "../controllers/adminController";
+
+const router = express.Router();
+
+// All admin routes require an authenticated admin
+router.use(auth, requireAdmin, rateLimit("api"));
+
+// Model usage and cost report
+router.get("/llm-usage", validate(llmUsageReportSchema), getLLMUsage);
+
+export default router;
@@ -1,23 +1,114 @@
 import { Router } from "express";
-import { register, login, logout } from "../controllers/authController";
+import {
+  register,
+  login,
+  logout,
+  refresh,
+  listSessions,
+  revokeSession,
+  revokeAllSessions,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerification,
+} from "../controllers/authController";
+import {
+  getProfile,
+  updateProfile,
+  getPreferences,
+  getUsage,
+  updatePreferences,
+  exportData,
+  requestAccountDeletion,
+  cancelAccountDeletion,
+} from "../controllers/profileController";
 
 //middleware
 import { auth } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import { rateLimit } from "../rateLimit";
+import { idParams } from "../validation/common";
+import {
+  deleteAccountSchema,
+  exportDataSchema,
+  forgotPasswordSchema,
+  loginSchema,
+  refreshSchema,
+  registerSchema,
+  resetPasswordSchema,
+  revokeAllSessionsSchema,
+  updatePreferencesSchema,
+  updateProfileSchema,
+  verifyEmailSchema,
+} from "../validation/auth";
 
 const router = Router();
 
 // POST auth/register
-router.post("/register", register);
+router.post("/register", rateLimit("register"), validate(registerSchema), register);
 
 // POST auth/login
-router.post("/login", login);
+router.post("/login", rateLimit("login"), validate(loginSchema), login);
 
 // POST auth/logout
 router.post("/logout", auth, logout);
 
+// POST auth/refresh
+router.post("/refresh", rateLimit("refresh"), validate(refreshSchema), refresh);
+
+// POST auth/forgot-password
+router.post(
+  "/forgot-password",
+  rateLimit("authEmail"),
+  validate(forgotPasswordSchema),
+  forgotPassword
+);
+
+// POST auth/reset-password
+router.post(
+  "/reset-password",
+  rateLimit("authEmail"),
+  validate(resetPasswordSchema),
+  resetPassword
+);
+
+// POST auth/verify-email
+router.post("/verify-email", rateLimit("authEmail"), validate(verifyEmailSchema), verifyEmail);
+
+// POST auth/verify-email/resend
+router.post("/verify-email/resend", auth, rateLimit("authEmail"), resendVerification);
+
+// GET auth/sessions
+router.get("/sessions", auth, listSessions);
+
+// DELETE auth/sessions
+router.delete("/sessions", auth, validate(revokeAllSessionsSchema), revokeAllSessions);
+
+// DELETE auth/sessions/:id
+router.delete("/sessions/:id", auth, validate({ params: idParams }), revokeSession);
+
 // GET auth/me
-router.get("/me", auth, (req, res) => {
-  res.json({ user: req.user });
-});
+router.get("/me", auth, getProfile);
+
+// PATCH auth/me
+router.patch("/me", auth, validate(updateProfileSchema), updateProfile);
+
+// GET auth/me/preferences
+router.get("/me/preferences", auth, getPreferences);
+
+// GET auth/me/usage
+router.get("/me/usage", auth, getUsage);
+
+// PATCH auth/me/preferences
+router.patch("/me/preferences", auth, validate(updatePreferencesSchema), updatePreferences);
+
+// GET auth/me/export
+router.get("/me/export", auth, validate(exportDataSchema), exportData);
+
+// DELETE auth/me
+router.delete("/me", auth, validate(deleteAccountSchema), requestAccountDeletion);
+
+// POST auth/me/cancel-deletion
+router.post("/me/cancel-deletion", auth, cancelAccountDeletion);
 
 export default router;
@@ -0,0 +1,24 @@
+import { loadOwnedSession } from "../middleware/chatSession";
+import { enforceLLMQuota } from "../rateLimit/quota";
+import router from "./chat";
+
+// The middleware chain of one route, in the order Express runs it
+const chainOf = (method: string, path: string) => {
+  const layer = router.stack.find(
+    (l) => l.route?.path === path && (l.route as unknown as { methods: Record<string, boolean> }).methods[method]
+  );
+  if (!layer?.route) throw new Error(`No route for ${method} ${path}`);
+  return layer.route.stack.map((l) => l.handle);
+};
+
+describe("chat routes", () => {
+  it.each(["/sessions/:sessionId/messages", "/sessions/:sessionId/messages/stream"])(
+    "only charge %s to the user's allowance once the session is checked",
+    (path) => {
+      const chain = chainOf("post", path);
+
+      expect(chain.indexOf(loadOwnedSession)).toBeGreaterThan(-1);
+      expect(chain.indexOf(enforceLLMQuota)).toBeGreaterThan(chain.indexOf(loadOwnedSession));
+    }
+  );
+});
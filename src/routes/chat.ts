@@ -2,6 +2,7 @@
 import express from "express";
 import {
   sendMessage,
+  streamMessage,
   getChatSession,
   getChatHistory,
   createChatSession,
@@ -9,36 +10,122 @@ import {
   generateTopic,      
   updateSessionTopic, 
   deleteChatSession,
+  completeSession,
+  pauseSession,
+  resumeSession,
+  archiveSession,
+  searchChatHistory,
+  getMessageAnalysis,
+  streamMessageAnalysis,
 } from "../controllers/chat";
 import { auth } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import { loadOwnedSession } from "../middleware/chatSession";
+import { rateLimit } from "../rateLimit";
+import { enforceLLMQuota } from "../rateLimit/quota";
+import {
+  chatHistorySchema,
+  generateTopicSchema,
+  listSessionsSchema,
+  messageParams,
+  searchChatSchema,
+  sendMessageSchema,
+  sessionParams,
+  updateTopicSchema,
+} from "../validation/chat";
 
 const router = express.Router();
 
-// Apply auth middleware to all routes
-router.use(auth);
+// Apply auth middleware and the baseline rate limit to all routes
+router.use(auth, rateLimit("api"));
+
+// Routes that call the model are limited harder and count towards the
+// user's daily quota. These run after validation and the ownership check,
+// so a rejected request never uses up the user's allowance.
+const llmMessage = [rateLimit("chatMessage"), enforceLLMQuota];
+
+// Every /sessions/:sessionId route validates the id and then loads the
+// session, which must belong to the current user
+const sessionOnly = validate({ params: sessionParams });
 
 // Create a new chat session
 router.post("/sessions", createChatSession);
 
 // Get a specific chat session
-router.get("/sessions/:sessionId", getChatSession);
+router.get("/sessions/:sessionId", sessionOnly, loadOwnedSession, getChatSession);
 
 // Send a message in a chat session
-router.post("/sessions/:sessionId/messages", sendMessage);
+router.post(
+  "/sessions/:sessionId/messages",
+  validate(sendMessageSchema),
+  loadOwnedSession,
+  llmMessage,
+  sendMessage
+);
+
+// Send a message and stream the reply over Server-Sent Events
+router.post(
+  "/sessions/:sessionId/messages/stream",
+  validate(sendMessageSchema),
+  loadOwnedSession,
+  llmMessage,
+  streamMessage
+);
+
+// Analysis of a message runs in the background: poll for it, or
+// subscribe over Server-Sent Events until it is ready
+const messageOnly = validate({ params: messageParams });
+router.get(
+  "/sessions/:sessionId/messages/:messageId/analysis",
+  messageOnly,
+  loadOwnedSession,
+  getMessageAnalysis
+);
+router.get(
+  "/sessions/:sessionId/messages/:messageId/analysis/stream",
+  messageOnly,
+  loadOwnedSession,
+  streamMessageAnalysis
+);
 
 // Get chat history for a session
-router.get("/sessions/:sessionId/history", getChatHistory);
+router.get(
+  "/sessions/:sessionId/history",
+  validate(chatHistorySchema),
+  loadOwnedSession,
+  getChatHistory
+);
 
 // Get all chat sessions
-router.get("/sessions", getAllChatSessions);
+router.get("/sessions", validate(listSessionsSchema), getAllChatSessions);
+
+// Search messages and topics across all of the user's sessions
+router.get("/search", rateLimit("search"), validate(searchChatSchema), searchChatHistory);
 
 // NEW: Generate topic from messages
-router.post("/generate-topic", generateTopic);
+router.post(
+  "/generate-topic",
+  validate(generateTopicSchema),
+  rateLimit("topic"),
+  enforceLLMQuota,
+  generateTopic
+);
 
 // NEW: Update session topic
-router.patch("/sessions/:sessionId/topic", updateSessionTopic);
+router.patch(
+  "/sessions/:sessionId/topic",
+  validate(updateTopicSchema),
+  loadOwnedSession,
+  updateSessionTopic
+);
+
+// Session lifecycle: completing a session also queues its closing summary
+router.post("/sessions/:sessionId/complete", sessionOnly, loadOwnedSession, completeSession);
+router.post("/sessions/:sessionId/pause", sessionOnly, loadOwnedSession, pauseSession);
+router.post("/sessions/:sessionId/resume", sessionOnly, loadOwnedSession, resumeSession);
+router.post("/sessions/:sessionId/archive", sessionOnly, loadOwnedSession, archiveSession);
 
 // delete a chat session
-router.delete ("/sessions/:sessionId", deleteChatSession);
+router.delete("/sessions/:sessionId", sessionOnly, loadOwnedSession, deleteChatSession);
 
 export default router;
\ No newline at end of file
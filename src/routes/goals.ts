@@ -0,0 +1,44 @@
+import express from "express";
+import { auth } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import { rateLimit } from "../rateLimit";
+import { idParams } from "../validation/common";
+import {
+  createGoalSchema,
+  listGoalsSchema,
+  progressNoteSchema,
+  updateGoalSchema,
+} from "../validation/goals";
+import {
+  getGoals,
+  getGoal,
+  createGoal,
+  updateGoal,
+  deleteGoal,
+  acceptGoal,
+  declineGoal,
+  addProgressNote,
+} from "../controllers/goalController";
+
+const router = express.Router();
+
+// All routes are protected with authentication
+router.use(auth, rateLimit("api"));
+
+// List and create goals
+router.get("/", validate(listGoalsSchema), getGoals);
+router.post("/", validate(createGoalSchema), createGoal);
+
+// Single goal
+router.get("/:id", validate({ params: idParams }), getGoal);
+router.patch("/:id", validate({ params: idParams, ...updateGoalSchema }), updateGoal);
+router.delete("/:id", validate({ params: idParams }), deleteGoal);
+
+// Accept or decline a goal the assistant proposed
+router.post("/:id/accept", validate({ params: idParams }), acceptGoal);
+router.post("/:id/decline", validate({ params: idParams }), declineGoal);
+
+// Add a progress note
+router.post("/:id/notes", validate({ params: idParams, ...progressNoteSchema }), addProgressNote);
+
+export default router;
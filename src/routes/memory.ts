@@ -0,0 +1,51 @@
+import express from "express";
+import { auth } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import { rateLimit } from "../rateLimit";
+import {
+  memoryFactParams,
+  memoryThemeParams,
+  memoryFactSchema,
+  updateMemoryPreferencesSchema,
+} from "../validation/memory";
+import {
+  getMemory,
+  updateMemoryPreferences,
+  addMemoryFact,
+  updateMemoryFact,
+  deleteMemoryFact,
+  deleteMemoryTheme,
+  deleteMemory,
+} from "../controllers/memoryController";
+
+const router = express.Router();
+
+// All routes are protected with authentication
+router.use(auth, rateLimit("api"));
+
+// View what the assistant remembers across sessions
+router.get("/", getMemory);
+
+// Update stated preferences
+router.patch(
+  "/preferences",
+  validate(updateMemoryPreferencesSchema),
+  updateMemoryPreferences
+);
+
+// Add, correct or forget life facts
+router.post("/facts", validate(memoryFactSchema), addMemoryFact);
+router.patch(
+  "/facts/:factId",
+  validate({ params: memoryFactParams, ...memoryFactSchema }),
+  updateMemoryFact
+);
+router.delete("/facts/:factId", validate({ params: memoryFactParams }), deleteMemoryFact);
+
+// Forget a recurring theme
+router.delete("/themes/:theme", validate({ params: memoryThemeParams }), deleteMemoryTheme);
+
+// Erase all memory
+router.delete("/", deleteMemory);
+
+export default router;
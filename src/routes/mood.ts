@@ -1,13 +1,44 @@
 import express from "express";
 import { auth } from "../middleware/auth";
-import { createMood } from "../controllers/moodController";
+import { validate } from "../middleware/validate";
+import { rateLimit } from "../rateLimit";
+import {
+  createMoodSchema,
+  moodCorrelationsSchema,
+  moodHistorySchema,
+  moodStatsSchema,
+  moodStreaksSchema,
+} from "../validation/mood";
+import {
+  createMood,
+  getMoodHistory,
+  getMoodStats,
+  getMoodStreaks,
+  getMoodActivityCorrelations,
+} from "../controllers/moodController";
 
 const router = express.Router();
 
 // All routes are protected with authentication
-router.use(auth);
+router.use(auth, rateLimit("api"));
 
 // Track a new mood entry
-router.post("/", createMood);
+router.post("/", validate(createMoodSchema), createMood);
+
+// Get paginated mood history (?page, ?limit, ?from, ?to)
+router.get("/", validate(moodHistorySchema), getMoodHistory);
+
+// Get daily or weekly aggregates (?period=day|week, ?from, ?to, ?tz)
+router.get("/stats", validate(moodStatsSchema), getMoodStats);
+
+// Get current and longest logging streaks (?tz)
+router.get("/streaks", validate(moodStreaksSchema), getMoodStreaks);
+
+// Compare mood against logged activity types (?from, ?to, ?tz)
+router.get(
+  "/correlations",
+  validate(moodCorrelationsSchema),
+  getMoodActivityCorrelations
+);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { IRiskEvent } from "../models/RiskEvent";
+import { logger } from "../utils/logger";
+
+export interface EscalationHook {
+  name: string;
+  notify(event: IRiskEvent): Promise<void>;
+}
+
+const toPayload = (event: IRiskEvent) => ({
+  riskEventId: event._id,
+  userId: event.userId,
+  sessionId: event.sessionId,
+  messageId: event.messageId,
+  riskLevel: event.riskLevel,
+  sources: event.sources,
+  matches: event.matches,
+  locale: event.locale,
+  createdAt: event.createdAt,
+});
+
+// POSTs the risk event to an external service (pager, on-call tool, ...)
+export class WebhookEscalationHook implements EscalationHook {
+  name = "webhook";
+
+  constructor(private url: string, private secret?: string) {}
+
+  async notify(event: IRiskEvent) {
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.secret ? { "X-Escalation-Secret": this.secret } : {}),
+      },
+      body: JSON.stringify(toPayload(event)),
+    });
+    if (!res.ok) {
+      throw new Error(`Escalation webhook failed with status ${res.status}`);
+    }
+  }
+}
+
+// Stand-in for an email to the on-call clinician: writes a loud log line
+export class LogEscalationHook implements EscalationHook {
+  name = "log";
+
+  constructor(private recipient = "safety-team") {}
+
+  async notify(event: IRiskEvent) {
+    logger.warn(`[ESCALATION] to ${this.recipient}: high risk message`, toPayload(event));
+  }
+}
+
+let hook: EscalationHook | null = null;
+
+export const getEscalationHook = (): EscalationHook => {
+  if (!hook) {
+    hook = process.env.SAFETY_ESCALATION_WEBHOOK_URL
+      ? new WebhookEscalationHook(
+          process.env.SAFETY_ESCALATION_WEBHOOK_URL,
+          process.env.SAFETY_ESCALATION_WEBHOOK_SECRET
+        )
+      : new LogEscalationHook(process.env.SAFETY_ESCALATION_EMAIL);
+  }
+  return hook;
+};
+
+export const setEscalationHook = (next: EscalationHook | null) => {
+  hook = next;
+};
@@ -0,0 +1,96 @@
+import { Types } from "mongoose";
+import { IRiskEvent, RiskEvent, RiskSource } from "../models/RiskEvent";
+import { MessageAnalysis } from "../types/inngest";
+import { logger } from "../utils/logger";
+import { getEscalationHook } from "./escalation";
+import { ScreenResult } from "./screen";
+
+export * from "./screen";
+export * from "./resources";
+export * from "./escalation";
+
+// Analysis risk levels above this are treated as a crisis
+export const RISK_THRESHOLD = Number(process.env.SAFETY_RISK_THRESHOLD) || 4;
+
+// Analysis recorded for messages answered with the crisis template
+export const crisisAnalysis = (screen: ScreenResult): MessageAnalysis => ({
+  emotionalState: "crisis",
+  themes: ["safety_concern"],
+  riskLevel: screen.riskLevel,
+  recommendedApproach: "crisis_support",
+  progressIndicators: [],
+});
+
+interface RiskEventInput {
+  userId: Types.ObjectId | string;
+  sessionId: string;
+  messageId: Types.ObjectId | string;
+  riskLevel: number;
+  source: RiskSource;
+  matches?: string[];
+  locale?: string;
+}
+
+const escalate = async (event: IRiskEvent) => {
+  const hook = getEscalationHook();
+  try {
+    await hook.notify(event);
+    event.escalatedAt = new Date();
+    event.escalatedVia = hook.name;
+    await event.save();
+  } catch (error) {
+    logger.error("Risk escalation failed:", { riskEventId: event._id, error });
+  }
+};
+
+/**
+ * Persist a risk event for a message and escalate it the first time it is
+ * seen. The pre-screen and the background message analysis may both report
+ * the same message, so they are merged into one record.
+ */
+export const recordRiskEvent = async (
+  input: RiskEventInput
+): Promise<IRiskEvent | null> => {
+  const filter = {
+    sessionId: input.sessionId,
+    messageId: new Types.ObjectId(String(input.messageId)),
+  };
+
+  try {
+    const existing = await RiskEvent.findOne(filter);
+    if (existing) {
+      existing.riskLevel = Math.max(existing.riskLevel, input.riskLevel);
+      if (!existing.sources.includes(input.source)) {
+        existing.sources.push(input.source);
+      }
+      await existing.save();
+      return existing;
+    }
+
+    const event = await RiskEvent.create({
+      ...filter,
+      userId: new Types.ObjectId(String(input.userId)),
+      riskLevel: input.riskLevel,
+      sources: [input.source],
+      matches: input.matches || [],
+      locale: input.locale,
+    });
+    logger.warn("Risk event recorded:", {
+      riskEventId: event._id,
+      sessionId: input.sessionId,
+      riskLevel: input.riskLevel,
+      source: input.source,
+    });
+
+    // Don't hold up the reply on the escalation hook
+    void escalate(event);
+    return event;
+  } catch (error: any) {
+    // Another path recorded this message at the same moment
+    if (error?.code === 11000) {
+      return recordRiskEvent(input);
+    }
+    logger.error("Failed to record risk event:", error);
+    return null;
+  }
+};
@@ -0,0 +1,52 @@
+export type SupportedLocale = "en" | "es" | "fr" | "de";
+
+interface CrisisTemplate {
+  response: string;
+  resources: string;
+}
+
+const TEMPLATES: Record<SupportedLocale, CrisisTemplate> = {
+  en: {
+    response:
+      "I'm really glad you told me, and I'm concerned about your safety. You don't have to go through this alone. If you are in immediate danger, please call your local emergency number now.",
+    resources:
+      "You can reach people who want to help right now:\n- US: call or text 988 (Suicide & Crisis Lifeline)\n- UK & Ireland: call 116 123 (Samaritans)\n- Elsewhere: find a local helpline at https://findahelpline.com\n\nWould you be willing to reach out to one of them, or to someone you trust, while we keep talking?",
+  },
+  es: {
+    response:
+      "Me alegra mucho que me lo hayas contado y me preocupa tu seguridad. No tienes que pasar por esto a solas. Si estás en peligro inmediato, llama ahora al número de emergencias de tu país.",
+    resources:
+      "Hay personas que quieren ayudarte ahora mismo:\n- España: llama al 024 (Línea de atención a la conducta suicida)\n- EE. UU.: llama o envía un mensaje al 988 (opción en español)\n- Otros países: busca una línea de ayuda en https://findahelpline.com\n\n¿Estarías dispuesto/a a contactar con alguno de ellos, o con alguien de confianza, mientras seguimos hablando?",
+  },
+  fr: {
+    response:
+      "Je suis vraiment content que vous m'en parliez, et je m'inquiète pour votre sécurité. Vous n'avez pas à traverser cela seul. Si vous êtes en danger immédiat, appelez dès maintenant le numéro d'urgence local.",
+    resources:
+      "Des personnes peuvent vous aider dès maintenant :\n- France : appelez le 3114 (numéro national de prévention du suicide)\n- Belgique : appelez le 0800 32 123\n- Ailleurs : trouvez une ligne d'écoute sur https://findahelpline.com\n\nSeriez-vous d'accord pour contacter l'un d'eux, ou une personne de confiance, pendant que nous continuons à parler ?",
+  },
+  de: {
+    response:
+      "Ich bin froh, dass du mir das erzählst, und ich mache mir Sorgen um deine Sicherheit. Du musst da nicht allein durch. Wenn du in unmittelbarer Gefahr bist, ruf bitte jetzt den Notruf an.",
+    resources:
+      "Es gibt Menschen, die dir jetzt helfen wollen:\n- Deutschland: TelefonSeelsorge 0800 111 0 111 oder 0800 111 0 222\n- Österreich: Telefonseelsorge 142\n- Anderswo: finde eine Hotline unter https://findahelpline.com\n\nWärst du bereit, dich an eine dieser Stellen oder an eine Vertrauensperson zu wenden, während wir weiterreden?",
+  },
+};
+
+// Pick the first supported language from an Accept-Language header
+export const resolveLocale = (acceptLanguage?: string): SupportedLocale => {
+  const languages = (acceptLanguage || "")
+    .split(",")
+    .map((part) => part.split(";")[0].trim().toLowerCase().split("-")[0]);
+  const match = languages.find((lang) => lang in TEMPLATES);
+  return (match as SupportedLocale) || "en";
+};
+
+// Full deterministic reply used instead of the LLM when the pre-screen fires
+export const getCrisisResponse = (locale: SupportedLocale = "en") => {
+  const template = TEMPLATES[locale] || TEMPLATES.en;
+  return `${template.response}\n\n${template.resources}`;
+};
+
+// Resource block appended to a model reply when analysis flags high risk
+export const getCrisisResources = (locale: SupportedLocale = "en") =>
+  (TEMPLATES[locale] || TEMPLATES.en).resources;
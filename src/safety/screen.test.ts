@@ -0,0 +1,36 @@
+import { screenMessage } from "./screen";
+
+describe("screenMessage", () => {
+  it.each([
+    ["I want to kill myself", 10],
+    ["I've been thinking about ending it, I want to end my life", 10],
+    ["sometimes I think everyone would be better off dead without me", 8],
+    ["I keep cutting myself when it gets bad", 7],
+    ["quiero morir", 8],
+    ["je veux mourir", 9],
+    ["j'ai envie de me suicider", 9],
+    ["Ich will sterben", 9],
+    ["ich will mich umbringen", 10],
+    ["Ich habe Selbstmordgedanken", 8],
+  ])("flags %j", (text, riskLevel) => {
+    const result = screenMessage(text);
+    expect(result.flagged).toBe(true);
+    expect(result.riskLevel).toBe(riskLevel);
+    expect(result.matches.length).toBeGreaterThan(0);
+  });
+
+  it.each([
+    "I had a long day at work and feel tired",
+    "I'm dying to see that film",
+    "This traffic is killing me",
+    "Ich will morgen früh aufstehen",
+  ])("does not flag %j", (text) => {
+    expect(screenMessage(text)).toEqual({ flagged: false, riskLevel: 0, matches: [] });
+  });
+
+  it("reports every matching phrase with the highest risk level", () => {
+    const result = screenMessage("I'm suicidal and I want to die");
+    expect(result.matches).toEqual(["suicidal", "want to die"]);
+    expect(result.riskLevel).toBe(8);
+  });
+});
@@ -0,0 +1,43 @@
+export interface ScreenResult {
+  flagged: boolean;
+  riskLevel: number;
+  matches: string[];
+}
+
+// Phrases that always warrant the crisis response, whatever the model says.
+// Kept deliberately explicit: false negatives here are worse than false positives.
+const CRISIS_PATTERNS: { pattern: RegExp; riskLevel: number }[] = [
+  { pattern: /\b(kill|hang|shoot|drown)(ing)? myself\b/i, riskLevel: 10 },
+  { pattern: /\b(end|take) my (own )?life\b/i, riskLevel: 10 },
+  { pattern: /\bcommit(ting)? suicide\b/i, riskLevel: 10 },
+  { pattern: /\bsuicid(e|al)\b/i, riskLevel: 8 },
+  { pattern: /\b(want|wish|going) to die\b/i, riskLevel: 8 },
+  { pattern: /\bbetter off dead\b/i, riskLevel: 8 },
+  { pattern: /\bno reason to (live|go on)\b/i, riskLevel: 7 },
+  { pattern: /\b(cut|cutting|hurt|hurting|harm|harming) myself\b/i, riskLevel: 7 },
+  { pattern: /\bself[- ]?harm(ing)?\b/i, riskLevel: 7 },
+  { pattern: /\boverdos(e|ing)\b/i, riskLevel: 7 },
+  { pattern: /\bquiero morir(me)?\b/i, riskLevel: 8 },
+  { pattern: /\bsuicidarme\b/i, riskLevel: 10 },
+  { pattern: /\bje veux mourir\b|\bme suicider\b/i, riskLevel: 9 },
+  { pattern: /\bich will (sterben|nicht mehr leben)\b/i, riskLevel: 9 },
+  { pattern: /\bmich (umbringen|töten)\b/i, riskLevel: 10 },
+  // No closing \b: German builds compounds such as "Selbstmordgedanken"
+  { pattern: /\b(selbstmord|suizid)/i, riskLevel: 8 },
+];
+
+// Rule-based screen that runs before any LLM call
+export const screenMessage = (text: string): ScreenResult => {
+  const matches: string[] = [];
+  let riskLevel = 0;
+
+  for (const { pattern, riskLevel: level } of CRISIS_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      matches.push(match[0]);
+      riskLevel = Math.max(riskLevel, level);
+    }
+  }
+
+  return { flagged: matches.length > 0, riskLevel, matches };
+};
@@ -0,0 +1,53 @@
+// Versioned database migrations (see src/migrations).
+//
+//   npm run migrate                 apply all pending migrations
+//   npm run migrate -- down [n]     revert the last n migrations (default 1)
+//   npm run migrate -- status       list migrations and when they were applied
+import dotenv from "dotenv";
+dotenv.config();
+// This script decides what to apply; don't let connectDB migrate first
+delete process.env.MIGRATE_ON_START;
+
+import mongoose from "mongoose";
+import { connectDB } from "../utils/db";
+import { logger } from "../utils/logger";
+import { getMigrationStatus, migrateDown, migrateUp } from "../migrations";
+
+const run = async () => {
+  const [command = "up", arg] = process.argv.slice(2);
+  await connectDB();
+
+  switch (command) {
+    case "up": {
+      const applied = await migrateUp();
+      logger.info(
+        applied.length ? `Applied ${applied.length} migrations` : "Database is up to date"
+      );
+      break;
+    }
+    case "down": {
+      const steps = arg ? Number(arg) : 1;
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error(`Invalid number of steps: ${arg}`);
+      }
+      const reverted = await migrateDown(steps);
+      logger.info(`Reverted ${reverted.length} migrations`);
+      break;
+    }
+    case "status":
+      for (const m of await getMigrationStatus()) {
+        console.log(`${m.appliedAt ? m.appliedAt.toISOString() : "pending".padEnd(24)}  ${m.name}`);
+      }
+      break;
+    default:
+      throw new Error(`Unknown command "${command}" - use up, down [n] or status`);
+  }
+
+  await mongoose.disconnect();
+};
+
+run().catch(async (error) => {
+  logger.error("Migration failed:", error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
@@ -0,0 +1,137 @@
+// Key rotation for encrypted chat content, mood notes, therapy memory and goals.
+//
+//   npm run keys:rotate                      re-wrap data keys under the active master key
+//   npm run keys:rotate -- --encrypt-existing  also encrypt content stored before encryption was enabled
+//   npm run keys:rotate -- --rotate-data-keys  also give every user a new data key and re-encrypt their data
+//
+// Put the new master key first in ENCRYPTION_MASTER_KEYS and keep the old
+// one listed until this has finished.
+import dotenv from "dotenv";
+dotenv.config();
+
+import mongoose from "mongoose";
+import { connectDB } from "../utils/db";
+import { logger } from "../utils/logger";
+import { DataKey } from "../models/DataKey";
+import { ChatSession } from "../models/chat";
+import { Mood } from "../models/Mood";
+import { TherapyMemory } from "../models/TherapyMemory";
+import { Goal } from "../models/Goal";
+import {
+  clearKeyCache,
+  decryptJSON,
+  decryptString,
+  getActiveMasterKeyId,
+  isEncryptionEnabled,
+  unwrapKey,
+  wrapKey,
+} from "../utils/encryption";
+
+const rewrapDataKeys = async () => {
+  const activeId = getActiveMasterKeyId();
+  let count = 0;
+  for await (const dataKey of DataKey.find({ masterKeyId: { $ne: activeId } })) {
+    const { wrappedKey, masterKeyId } = wrapKey(unwrapKey(dataKey));
+    dataKey.wrappedKey = wrappedKey;
+    dataKey.masterKeyId = masterKeyId;
+    await dataKey.save();
+    count++;
+  }
+  logger.info(`Re-wrapped ${count} data keys under master key ${activeId}`);
+};
+
+// Decrypt in place; the models' pre-save hooks encrypt again with the
+// user's active data key (and encrypt anything that was plaintext)
+const reencryptUserData = async (filter: Record<string, any> = {}) => {
+  let sessions = 0;
+  for await (const session of ChatSession.find(filter)) {
+    for (const message of session.messages) {
+      message.content = await decryptString(message.content);
+      if (message.metadata?.analysis !== undefined) {
+        message.metadata.analysis = await decryptJSON(message.metadata.analysis);
+      }
+      if (message.metadata?.progress?.emotionalState) {
+        message.metadata.progress.emotionalState = await decryptString(
+          message.metadata.progress.emotionalState
+        );
+      }
+    }
+    if (session.summary) session.summary = await decryptString(session.summary);
+    if (session.closingSummary) {
+      session.closingSummary = await decryptJSON(session.closingSummary);
+    }
+    session.markModified("messages");
+    await session.save();
+    sessions++;
+  }
+
+  let moods = 0;
+  for await (const mood of Mood.find({ ...filter, note: { $type: "string" } })) {
+    mood.note = await decryptString(mood.note!);
+    mood.markModified("note");
+    await mood.save();
+    moods++;
+  }
+
+  let memories = 0;
+  for await (const memory of TherapyMemory.find(filter)) {
+    for (const entry of memory.emotionalStates) entry.state = await decryptString(entry.state);
+    for (const entry of memory.lifeFacts) entry.fact = await decryptString(entry.fact);
+    for (const [key, value] of memory.preferences) {
+      memory.preferences.set(key, await decryptString(value));
+    }
+    memory.markModified("emotionalStates");
+    memory.markModified("lifeFacts");
+    await memory.save();
+    memories++;
+  }
+
+  let goals = 0;
+  for await (const goal of Goal.find({ ...filter, "progressNotes.0": { $exists: true } })) {
+    for (const entry of goal.progressNotes) entry.note = await decryptString(entry.note);
+    goal.markModified("progressNotes");
+    await goal.save();
+    goals++;
+  }
+
+  logger.info(
+    `Re-encrypted ${sessions} chat sessions, ${moods} mood entries, ${memories} therapy memories and ${goals} goals`
+  );
+};
+
+const rotateDataKeys = async () => {
+  const userIds: mongoose.Types.ObjectId[] = await DataKey.distinct("userId", { active: true });
+  for (const userId of userIds) {
+    const oldKeys = await DataKey.find({ userId, active: true });
+    // Old keys stay readable until the user's data is re-encrypted
+    await DataKey.updateMany({ userId, active: true }, { $set: { active: false } });
+    await reencryptUserData({ userId });
+    await DataKey.deleteMany({ _id: { $in: oldKeys.map((k) => k._id) } });
+  }
+  clearKeyCache();
+  logger.info(`Rotated data keys for ${userIds.length} users`);
+};
+
+const run = async () => {
+  if (!isEncryptionEnabled()) {
+    logger.error("ENCRYPTION_MASTER_KEYS is not set - nothing to rotate");
+    process.exit(1);
+  }
+
+  const args = process.argv.slice(2);
+  await connectDB();
+
+  await rewrapDataKeys();
+  if (args.includes("--rotate-data-keys")) {
+    await rotateDataKeys();
+  } else if (args.includes("--encrypt-existing")) {
+    await reencryptUserData();
+  }
+
+  await mongoose.disconnect();
+};
+
+run().catch((error) => {
+  logger.error("Key rotation failed:", error);
+  process.exit(1);
+});
@@ -43,6 +43,9 @@ export interface InngestEventData {
   systemPrompt?: string;
   sessionId?: string;
   userId?: string;
+  messageId?: string;
+  replyId?: string;
+  locale?: string;
   startTime?: Date;
 }
 
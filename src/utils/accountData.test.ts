@@ -0,0 +1,85 @@
+import { Model, Types } from "mongoose";
+import { ChatSession } from "../models/chat";
+import { Mood } from "../models/Mood";
+import { Activity } from "../models/Activity";
+import { ActivityType } from "../models/ActivityType";
+import { Session } from "../models/Session";
+import { Goal } from "../models/Goal";
+import { TherapyMemory } from "../models/TherapyMemory";
+import { Recommendation } from "../models/Recommendation";
+import { RiskEvent } from "../models/RiskEvent";
+import { AuthToken } from "../models/AuthToken";
+import { User } from "../models/User";
+import { LLMUsage } from "../models/LLMUsage";
+import { LLMCall } from "../models/LLMCall";
+import { DataKey } from "../models/DataKey";
+import * as encryption from "./encryption";
+import { deleteUserData } from "./accountData";
+
+// Every per-user collection and the count deleteUserData reports for it
+const CASCADE: [string, Model<any>][] = [
+  ["chatSessions", ChatSession],
+  ["moods", Mood],
+  ["activities", Activity],
+  ["activityTypes", ActivityType],
+  ["sessions", Session],
+  ["goals", Goal],
+  ["memory", TherapyMemory],
+  ["recommendations", Recommendation],
+  ["riskEvents", RiskEvent],
+  ["authTokens", AuthToken],
+  ["llmUsage", LLMUsage],
+  ["dataKeys", DataKey],
+];
+
+describe("deleteUserData", () => {
+  const userId = new Types.ObjectId();
+
+  it("deletes the user and everything stored for them", async () => {
+    const deleteMany = CASCADE.map(([, model], i) =>
+      jest.spyOn(model, "deleteMany").mockResolvedValue({ acknowledged: true, deletedCount: i + 1 })
+    );
+    const updateMany = jest
+      .spyOn(LLMCall, "updateMany")
+      .mockResolvedValue({
+        acknowledged: true,
+        matchedCount: 4,
+        modifiedCount: 4,
+        upsertedCount: 0,
+        upsertedId: null,
+      });
+    const deleteUser = jest
+      .spyOn(User, "deleteOne")
+      .mockResolvedValue({ acknowledged: true, deletedCount: 1 });
+    const clearKeyCache = jest.spyOn(encryption, "clearKeyCache");
+
+    const counts = await deleteUserData(userId);
+
+    for (const spy of deleteMany) {
+      expect(spy).toHaveBeenCalledWith({ userId });
+    }
+    expect(deleteUser).toHaveBeenCalledWith({ _id: userId });
+    // Call records are kept for cost accounting, without the user
+    expect(updateMany).toHaveBeenCalledWith({ userId }, { $unset: { userId: 1 } });
+    expect(clearKeyCache).toHaveBeenCalled();
+    expect(counts).toEqual({
+      users: 1,
+      anonymizedLLMCalls: 4,
+      ...Object.fromEntries(CASCADE.map(([name], i) => [name, i + 1])),
+    });
+  });
+
+  it("keeps the user record and their data keys if deleting their data fails", async () => {
+    for (const [, model] of CASCADE) {
+      jest.spyOn(model, "deleteMany").mockResolvedValue({ acknowledged: true, deletedCount: 0 });
+    }
+    // The last of the data deletes, so every other delete has been started
+    jest.spyOn(LLMUsage, "deleteMany").mockRejectedValue(new Error("connection lost"));
+    const deleteKeys = jest.spyOn(DataKey, "deleteMany");
+    const deleteUser = jest.spyOn(User, "deleteOne");
+
+    await expect(deleteUserData(userId)).rejects.toThrow("connection lost");
+    expect(deleteKeys).not.toHaveBeenCalled();
+    expect(deleteUser).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,212 @@
+import JSZip from "jszip";
+import { Types } from "mongoose";
+import { ChatSession } from "../models/chat";
+import { Mood } from "../models/Mood";
+import { Activity } from "../models/Activity";
+import { ActivityType } from "../models/ActivityType";
+import { Session } from "../models/Session";
+import { Goal } from "../models/Goal";
+import { TherapyMemory } from "../models/TherapyMemory";
+import { Recommendation } from "../models/Recommendation";
+import { RiskEvent } from "../models/RiskEvent";
+import { AuthToken } from "../models/AuthToken";
+import { User } from "../models/User";
+import { LLMUsage } from "../models/LLMUsage";
+import { LLMCall } from "../models/LLMCall";
+import { DataKey } from "../models/DataKey";
+import { clearKeyCache } from "./encryption";
+import {
+  decryptChatSession,
+  decryptGoal,
+  decryptMood,
+  decryptTherapyMemory,
+} from "./secureFields";
+
+// Everything we hold about a user, as plain objects
+export const collectUserData = async (userId: Types.ObjectId) => {
+  const [
+    user,
+    chatSessions,
+    moods,
+    activities,
+    activityTypes,
+    goals,
+    memory,
+    recommendations,
+    riskEvents,
+  ] = await Promise.all([
+    User.findById(userId).lean(),
+    ChatSession.find({ userId }).sort({ startTime: 1 }).lean(),
+    Mood.find({ userId }).sort({ timestamp: 1 }).lean(),
+    Activity.find({ userId }).sort({ timestamp: 1 }).lean(),
+    ActivityType.find({ userId }).lean(),
+    Goal.find({ userId }).sort({ createdAt: 1 }).lean(),
+    TherapyMemory.findOne({ userId }).lean(),
+    Recommendation.find({ userId }).sort({ createdAt: 1 }).lean(),
+    RiskEvent.find({ userId }).sort({ createdAt: 1 }).lean(),
+  ]);
+
+  const { password, __v, ...profile } = (user || {}) as Record<string, any>;
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile,
+    chatSessions: await Promise.all(chatSessions.map(decryptChatSession)),
+    moods: await Promise.all(moods.map(decryptMood)),
+    activities,
+    activityTypes,
+    goals: await Promise.all(goals.map(decryptGoal)),
+    memory: memory && (await decryptTherapyMemory(memory)),
+    recommendations,
+    riskEvents,
+  };
+};
+
+export type UserDataExport = Awaited<ReturnType<typeof collectUserData>>;
+
+const formatDate = (value: unknown) =>
+  value ? new Date(value as string).toISOString().replace("T", " ").substring(0, 16) : "";
+
+const sessionToMarkdown = (session: UserDataExport["chatSessions"][number]) => {
+  const lines = [
+    `# ${session.topic || "Therapy Session"}`,
+    "",
+    `- Session: ${session.sessionId}`,
+    `- Started: ${formatDate(session.startTime)}`,
+    `- Status: ${session.status}`,
+    "",
+  ];
+  const summary = session.closingSummary;
+  if (summary && typeof summary === "object") {
+    lines.push("## Summary", "", summary.overview || "", "");
+    if (summary.themes?.length) lines.push(`- Themes: ${summary.themes.join(", ")}`);
+    if (summary.techniques?.length) lines.push(`- Techniques: ${summary.techniques.join(", ")}`);
+    if (summary.homework?.length) lines.push(`- Homework: ${summary.homework.join("; ")}`);
+    lines.push("");
+  }
+  for (const message of session.messages || []) {
+    lines.push(
+      `**${message.role === "user" ? "You" : "Therapist"}** (${formatDate(message.timestamp)})`,
+      "",
+      message.content,
+      ""
+    );
+  }
+  return lines.join("\n");
+};
+
+const tableToMarkdown = (title: string, headers: string[], rows: unknown[][]) =>
+  [
+    `# ${title}`,
+    "",
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map(
+      (row) => `| ${row.map((cell) => String(cell ?? "").replace(/\|/g, "\\|").replace(/\n/g, " ")).join(" | ")} |`
+    ),
+    "",
+  ].join("\n");
+
+// Human-readable archive: one markdown file per session plus the raw JSON
+export const buildMarkdownArchive = async (data: UserDataExport) => {
+  const zip = new JSZip();
+
+  zip.file("export.json", JSON.stringify(data, null, 2));
+  zip.file(
+    "README.md",
+    `# Your data\n\nExported ${data.exportedAt}.\n\n- \`sessions/\` - one file per chat session\n- \`moods.md\`, \`activities.md\`, \`goals.md\` - your logs\n- \`export.json\` - everything in machine-readable form\n`
+  );
+
+  for (const session of data.chatSessions) {
+    const date = formatDate(session.startTime).substring(0, 10);
+    zip.file(`sessions/${date}-${session.sessionId}.md`, sessionToMarkdown(session));
+  }
+
+  zip.file(
+    "moods.md",
+    tableToMarkdown(
+      "Mood entries",
+      ["Date", "Score", "Note"],
+      data.moods.map((m) => [formatDate(m.timestamp), m.score, m.note])
+    )
+  );
+  zip.file(
+    "activities.md",
+    tableToMarkdown(
+      "Activities",
+      ["Date", "Type", "Name", "Minutes", "Difficulty", "Feedback"],
+      data.activities.map((a) => [
+        formatDate(a.timestamp),
+        a.type,
+        a.name,
+        a.duration,
+        a.difficulty,
+        a.feedback,
+      ])
+    )
+  );
+  zip.file(
+    "goals.md",
+    tableToMarkdown(
+      "Goals",
+      ["Created", "Title", "Status", "Progress notes"],
+      data.goals.map((g) => [
+        formatDate(g.createdAt),
+        g.title,
+        g.status,
+        (g.progressNotes || []).map((n) => n.note).join("; "),
+      ])
+    )
+  );
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+};
+
+// Erase the user and everything tied to them. Returns per-collection counts.
+export const deleteUserData = async (userId: Types.ObjectId) => {
+  const filter = { userId };
+  const results = await Promise.all([
+    ChatSession.deleteMany(filter),
+    Mood.deleteMany(filter),
+    Activity.deleteMany(filter),
+    ActivityType.deleteMany(filter),
+    Session.deleteMany(filter),
+    Goal.deleteMany(filter),
+    TherapyMemory.deleteMany(filter),
+    Recommendation.deleteMany(filter),
+    RiskEvent.deleteMany(filter),
+    AuthToken.deleteMany(filter),
+    LLMUsage.deleteMany(filter),
+  ]);
+  // Only once everything they protect is gone: without its data keys any
+  // copy of the user's ciphertext (e.g. in a backup) can no longer be
+  // decrypted, so a failed run must be able to retry with the keys intact
+  const dataKeys = await DataKey.deleteMany(filter);
+  clearKeyCache();
+  // Call records stay for cost accounting, but no longer point at the user
+  const llmCalls = await LLMCall.updateMany(filter, { $unset: { userId: 1 } });
+  const user = await User.deleteOne({ _id: userId });
+
+  const names = [
+    "chatSessions",
+    "moods",
+    "activities",
+    "activityTypes",
+    "sessions",
+    "goals",
+    "memory",
+    "recommendations",
+    "riskEvents",
+    "authTokens",
+    "llmUsage",
+  ];
+  const counts: Record<string, number> = {
+    users: user.deletedCount,
+    dataKeys: dataKeys.deletedCount,
+    anonymizedLLMCalls: llmCalls.modifiedCount,
+  };
+  results.forEach((result, i) => {
+    counts[names[i]] = result.deletedCount;
+  });
+  return counts;
+};
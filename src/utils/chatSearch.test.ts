@@ -0,0 +1,143 @@
+import "mingo/init/system";
+import { Query } from "mingo";
+import { Types } from "mongoose";
+import { ChatSession } from "../models/chat";
+import * as secureFields from "./secureFields";
+import { searchChatSessions } from "./chatSearch";
+
+const userId = new Types.ObjectId();
+const at = (day: number, hour = 0) => new Date(Date.UTC(2024, 0, day, hour));
+
+interface StoredSession {
+  sessionId: string;
+  topic?: string;
+  startTime: Date;
+  updatedAt: Date;
+  messages: Record<string, unknown>[];
+}
+
+// Serve sessions the way the search reads them: filtered, most recently
+// updated first, one at a time
+const storeSessions = (sessions: StoredSession[]) =>
+  jest.spyOn(ChatSession, "find").mockImplementation(((filter: Record<string, unknown>) => {
+    const matching = sessions
+      .map((session) => ({ userId, ...session }))
+      .filter((session) => new Query(filter).test(session))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    const chain = {
+      sort: () => chain,
+      select: () => chain,
+      lean: () => chain,
+      cursor: async function* () {
+        yield* matching;
+      },
+    };
+    return chain;
+  }) as unknown as typeof ChatSession.find);
+
+const exchange = (day: number, user: string, reply: string, themes: string[] = []) => [
+  { _id: new Types.ObjectId(), role: "user", content: user, timestamp: at(day, 10) },
+  {
+    _id: new Types.ObjectId(),
+    role: "assistant",
+    content: reply,
+    timestamp: at(day, 11),
+    metadata: { analysis: { themes } },
+  },
+];
+
+const search = (query: string, options: Partial<Parameters<typeof searchChatSessions>[1]> = {}) =>
+  searchChatSessions(userId, { query, limit: 20, ...options });
+
+describe("searchChatSessions", () => {
+  const sessions: StoredSession[] = [
+    {
+      sessionId: "work",
+      topic: "Stress at work",
+      startTime: at(1, 10),
+      updatedAt: at(1, 11),
+      messages: exchange(
+        1,
+        "My manager keeps adding deadlines",
+        "That sounds like a lot of stress",
+        ["work_stress"]
+      ),
+    },
+    {
+      sessionId: "sleep",
+      topic: "Sleep",
+      startTime: at(3, 10),
+      updatedAt: at(3, 11),
+      messages: exchange(
+        3,
+        "I sleep badly before every Deadline",
+        "Let's look at your evenings",
+        ["sleep", "work-stress"]
+      ),
+    },
+  ];
+
+  it("finds messages containing every term, ignoring case and accents, newest first", async () => {
+    storeSessions([
+      ...sessions,
+      {
+        sessionId: "cafe",
+        startTime: at(2, 10),
+        updatedAt: at(2, 11),
+        messages: exchange(2, "I met a friend at the Café", "How did that feel?"),
+      },
+    ]);
+
+    const { results, partial } = await search("DEADLINE");
+    expect(results.map((r) => [r.sessionId, r.role])).toEqual([
+      ["sleep", "user"],
+      ["work", "user"],
+    ]);
+    expect(results[0].snippet).toBe("I sleep badly before every Deadline");
+    expect(partial).toBe(false);
+
+    expect((await search("cafe friend")).results.map((r) => r.sessionId)).toEqual(["cafe"]);
+    expect((await search("cafe enemy")).results).toEqual([]);
+  });
+
+  it("matches topics unless a role filter is given", async () => {
+    storeSessions(sessions);
+
+    expect((await search("stress")).results.map((r) => [r.sessionId, r.matchedIn])).toEqual([
+      ["work", "message"],
+      ["work", "topic"],
+    ]);
+    const replies = await search("stress", { roles: ["assistant"] });
+    expect(replies.results.map((r) => [r.sessionId, r.matchedIn])).toEqual([["work", "message"]]);
+  });
+
+  it("gives user messages the themes of the reply and filters on them", async () => {
+    storeSessions(sessions);
+
+    const { results } = await search("deadline", { theme: "Work Stress" });
+
+    expect(results.map((r) => [r.sessionId, r.themes])).toEqual([
+      ["sleep", ["sleep", "work-stress"]],
+      ["work", ["work_stress"]],
+    ]);
+    expect((await search("deadline", { theme: "sleep" })).results).toHaveLength(1);
+  });
+
+  it("only returns messages inside the date range", async () => {
+    storeSessions(sessions);
+
+    const { results } = await search("deadline", { from: at(2), to: at(4) });
+
+    expect(results.map((r) => r.sessionId)).toEqual(["sleep"]);
+  });
+
+  it("stops reading sessions once older ones cannot change the results", async () => {
+    storeSessions(sessions);
+    const decrypt = jest.spyOn(secureFields, "decryptMessages");
+
+    const { results } = await search("deadline", { limit: 1 });
+
+    expect(results.map((r) => r.sessionId)).toEqual(["sleep"]);
+    expect(decrypt).toHaveBeenCalledTimes(1);
+  });
+});
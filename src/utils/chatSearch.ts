@@ -0,0 +1,173 @@
+import { Types } from "mongoose";
+import { ChatSession, IChatMessage } from "../models/chat";
+import { decryptMessages } from "./secureFields";
+
+// Message content is encrypted at rest, so a database text index cannot
+// see it. Search decrypts the user's sessions and matches in the app,
+// narrowing by date in the query first.
+
+const SNIPPET_RADIUS = 60;
+
+// Most sessions decrypted per search; older ones are reported as not searched
+const MAX_SCANNED_SESSIONS = 200;
+
+export interface ChatSearchOptions {
+  query: string;
+  from?: Date;
+  to?: Date;
+  roles?: IChatMessage["role"][];
+  theme?: string;
+  limit: number;
+}
+
+export interface ChatSearchResult {
+  sessionId: string;
+  topic?: string;
+  matchedIn: "message" | "topic";
+  messageId?: string;
+  role?: IChatMessage["role"];
+  timestamp: Date;
+  snippet: string;
+  themes: string[];
+}
+
+// Lowercase and strip accents so "cafe" finds "Café"
+const fold = (text: string) =>
+  text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+const normalizeTheme = (theme: string) => fold(theme).replace(/[_-]+/g, " ").trim();
+
+const parseTerms = (query: string) =>
+  [...new Set(fold(query).split(/\s+/).filter(Boolean))];
+
+// Every term must appear; the snippet is centred on the first one found
+const matchText = (text: string, terms: string[]) => {
+  const folded = fold(text);
+  let first = -1;
+  for (const term of terms) {
+    const index = folded.indexOf(term);
+    if (index === -1) return null;
+    if (first === -1 || index < first) first = index;
+  }
+  // Folding can change length for some scripts; fall back to the start
+  if (folded.length !== text.length) first = 0;
+  return buildSnippet(text, first);
+};
+
+const buildSnippet = (text: string, index: number) => {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + SNIPPET_RADIUS * 2);
+  return `${start > 0 ? "..." : ""}${text.substring(start, end).trim()}${
+    end < text.length ? "..." : ""
+  }`;
+};
+
+const themesOf = (message: IChatMessage | undefined): string[] =>
+  Array.isArray(message?.metadata?.analysis?.themes)
+    ? message!.metadata!.analysis.themes.filter((t: unknown) => typeof t === "string")
+    : [];
+
+/**
+ * Search one user's chat sessions. Results are newest first. Analysis
+ * (and so themes) is stored on the assistant reply, so a user message
+ * carries the themes of the reply that answered it.
+ *
+ * Sessions are scanned most recently updated first. Nothing in a session
+ * is newer than its updatedAt, so scanning stops once a full page of
+ * results is newer than the next session. `partial` means the scan cap
+ * was hit before that point and older matches may be missing.
+ */
+export const searchChatSessions = async (
+  userId: Types.ObjectId,
+  options: ChatSearchOptions
+) => {
+  const terms = parseTerms(options.query);
+  const theme = options.theme ? normalizeTheme(options.theme) : undefined;
+  const inRange = (date: Date) =>
+    (!options.from || date >= options.from) && (!options.to || date <= options.to);
+
+  // A session can only contain messages in range if it overlaps the range
+  const filter: Record<string, any> = { userId };
+  if (options.from) filter.updatedAt = { $gte: options.from };
+  if (options.to) filter.startTime = { $lte: options.to };
+
+  const results: ChatSearchResult[] = [];
+  const newestFirst = (a: ChatSearchResult, b: ChatSearchResult) =>
+    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+
+  const cursor = ChatSession.find(filter)
+    .sort({ updatedAt: -1 })
+    .select("sessionId topic startTime updatedAt messages")
+    .lean()
+    .cursor();
+
+  let scanned = 0;
+  let complete = true;
+  for await (const session of cursor) {
+    if (results.length >= options.limit) {
+      results.sort(newestFirst);
+      results.length = options.limit;
+      if (results[results.length - 1].timestamp >= session.updatedAt) {
+        // Every result left would be older than what we already have
+        break;
+      }
+    }
+    if (scanned === MAX_SCANNED_SESSIONS) {
+      complete = false;
+      break;
+    }
+    scanned++;
+
+    const messages = await decryptMessages(session.messages as IChatMessage[]);
+    const sessionThemes = new Set<string>();
+
+    messages.forEach((message, i) => {
+      const themes = [
+        ...new Set([
+          ...themesOf(message),
+          ...(message.role === "user" ? themesOf(messages[i + 1]) : []),
+        ]),
+      ];
+      themes.forEach((t) => sessionThemes.add(normalizeTheme(t)));
+
+      if (options.roles && !options.roles.includes(message.role)) return;
+      if (!inRange(new Date(message.timestamp))) return;
+      if (theme && !themes.some((t) => normalizeTheme(t) === theme)) return;
+
+      const snippet = matchText(message.content, terms);
+      if (!snippet) return;
+      results.push({
+        sessionId: session.sessionId,
+        topic: session.topic,
+        matchedIn: "message",
+        messageId: message._id ? String(message._id) : undefined,
+        role: message.role,
+        timestamp: message.timestamp,
+        snippet,
+        themes,
+      });
+    });
+
+    // Topics are not tied to a role, so a role filter excludes them
+    if (session.topic && !options.roles && inRange(new Date(session.startTime))) {
+      if (theme && !sessionThemes.has(theme)) continue;
+      const snippet = matchText(session.topic, terms);
+      if (snippet) {
+        results.push({
+          sessionId: session.sessionId,
+          topic: session.topic,
+          matchedIn: "topic",
+          timestamp: session.startTime,
+          snippet,
+          themes: [...sessionThemes],
+        });
+      }
+    }
+  }
+
+  results.sort(newestFirst);
+  return {
+    results: results.slice(0, options.limit),
+    partial: !complete,
+  };
+};
@@ -0,0 +1,97 @@
+import { IChatMessage, IChatSession } from "../models/chat";
+import { LLMCall } from "../models/LLMCall";
+import { setLLMProvider } from "../llm";
+import { StubProvider } from "../llm/stub";
+import { GenerateOptions } from "../llm/types";
+import { buildConversationContext } from "./conversation";
+
+// Records summary prompts; fails them when asked to
+class SummaryProvider extends StubProvider {
+  prompts: string[] = [];
+  fail = false;
+
+  async generateText(prompt: string, options: GenerateOptions = {}) {
+    this.prompts.push(prompt);
+    if (this.fail) throw new Error("model unavailable");
+    return options.task === "summary" ? `summary #${this.prompts.length}` : "";
+  }
+}
+
+const message = (i: number, content = `message ${i}`): IChatMessage =>
+  ({ role: i % 2 ? "assistant" : "user", content, timestamp: new Date() }) as IChatMessage;
+
+const buildSession = (count: number, fields: Partial<IChatSession> = {}) =>
+  ({
+    messages: Array.from({ length: count }, (_, i) => message(i)),
+    summarizedUntil: 0,
+    ...fields,
+  }) as IChatSession;
+
+describe("buildConversationContext", () => {
+  let provider: SummaryProvider;
+
+  beforeEach(() => {
+    provider = new SummaryProvider();
+    setLLMProvider(provider);
+    // Every call is recorded in the background; keep that out of the database
+    jest.spyOn(LLMCall, "create").mockResolvedValue([]);
+  });
+
+  afterEach(() => setLLMProvider(new StubProvider()));
+
+  it("uses every earlier message while they fit in the window", async () => {
+    const session = buildSession(5);
+
+    const context = await buildConversationContext(session);
+
+    // The newest message is the one being answered
+    expect(context.history.map((m) => m.content)).toEqual([0, 1, 2, 3].map((i) => `message ${i}`));
+    expect(context.summary).toBeUndefined();
+    expect(provider.prompts).toHaveLength(0);
+  });
+
+  it("folds messages that fall out of the window into the summary", async () => {
+    const session = buildSession(26, { summary: "earlier summary" });
+
+    const context = await buildConversationContext(session);
+
+    expect(context.history).toHaveLength(20);
+    expect(context.history[0].content).toBe("message 5");
+    expect(context.summary).toBe("summary #1");
+    expect(session.summarizedUntil).toBe(5);
+    expect(provider.prompts[0]).toContain("earlier summary");
+    expect(provider.prompts[0]).toContain("message 4");
+    expect(provider.prompts[0]).not.toContain("message 5");
+  });
+
+  it("only summarizes messages that are not summarized yet", async () => {
+    const session = buildSession(27, { summary: "earlier summary", summarizedUntil: 5 });
+
+    await buildConversationContext(session);
+
+    expect(provider.prompts[0]).toContain("message 5");
+    expect(provider.prompts[0]).not.toContain("message 4");
+    expect(session.summarizedUntil).toBe(6);
+  });
+
+  it("drops long messages from the window to stay within the token budget", async () => {
+    const session = buildSession(0);
+    session.messages = [message(0, "a".repeat(6000)), message(1, "b".repeat(6000)), message(2)];
+
+    const context = await buildConversationContext(session);
+
+    expect(context.history).toHaveLength(1);
+    expect(session.summarizedUntil).toBe(1);
+  });
+
+  it("keeps the old summary when summarizing fails", async () => {
+    provider.fail = true;
+    const session = buildSession(26, { summary: "earlier summary" });
+
+    const context = await buildConversationContext(session);
+
+    expect(context.summary).toBe("earlier summary");
+    expect(session.summarizedUntil).toBe(0);
+    expect(context.history).toHaveLength(20);
+  });
+});
@@ -0,0 +1,81 @@
+import { IChatMessage, IChatSession } from "../models/chat";
+import { estimateTokens, getLLMProvider } from "../llm";
+import { logger } from "./logger";
+import { decryptString } from "./encryption";
+import { decryptMessages } from "./secureFields";
+
+const HISTORY_TOKEN_BUDGET = Number(process.env.CHAT_HISTORY_TOKEN_BUDGET) || 2000;
+const HISTORY_MAX_MESSAGES = Number(process.env.CHAT_HISTORY_MAX_MESSAGES) || 20;
+
+export interface ConversationContext {
+  summary?: string;
+  history: IChatMessage[];
+}
+
+export const formatTranscript = (messages: IChatMessage[]) =>
+  messages
+    .map((msg) => `${msg.role === "user" ? "User" : "Therapist"}: ${msg.content}`)
+    .join("\n");
+
+// Index of the oldest message that still fits in the history window,
+// walking back from the newest one
+const findWindowStart = (messages: IChatMessage[]) => {
+  let tokens = 0;
+  let start = messages.length;
+  while (start > 0 && messages.length - start < HISTORY_MAX_MESSAGES) {
+    const cost = estimateTokens(messages[start - 1].content);
+    if (tokens + cost > HISTORY_TOKEN_BUDGET) break;
+    tokens += cost;
+    start--;
+  }
+  return start;
+};
+
+const summarize = async (
+  summary: string | undefined,
+  messages: IChatMessage[],
+  userId: string
+) => {
+  const prompt = `You maintain a running summary of a therapy conversation so it can be continued later.
+
+${summary ? `Summary so far:\n${summary}\n\n` : ""}New conversation turns:
+${formatTranscript(messages)}
+
+Write an updated summary in at most 150 words. Keep the key concerns, feelings, facts about the user's life and anything the therapist suggested. Return only the summary text.`;
+
+  return getLLMProvider().generateText(prompt, { task: "summary", userId });
+};
+
+/**
+ * Build the history used to generate a reply for the latest message.
+ * Turns that no longer fit in the token budget are folded into the
+ * session's rolling summary (saved with the session by the caller).
+ */
+export const buildConversationContext = async (
+  session: IChatSession
+): Promise<ConversationContext> => {
+  // The newest message is the one being answered, so it is not history
+  const previous = session.messages.slice(0, -1);
+  const summarizedUntil = Math.min(session.summarizedUntil || 0, previous.length);
+
+  // Stored messages are encrypted; only the unsummarized tail is needed
+  const pending = await decryptMessages(previous.slice(summarizedUntil));
+  const windowStart = findWindowStart(pending);
+  let summary = session.summary ? await decryptString(session.summary) : undefined;
+
+  if (windowStart > 0) {
+    try {
+      summary = await summarize(summary, pending.slice(0, windowStart), String(session.userId));
+      session.summary = summary;
+      session.summarizedUntil = summarizedUntil + windowStart;
+    } catch (error) {
+      // Keep the old summary and retry next time rather than failing the reply
+      logger.warn("Conversation summary update failed:", error);
+    }
+  }
+
+  return {
+    summary,
+    history: pending.slice(windowStart),
+  };
+};
@@ -1,31 +1,21 @@
 import mongoose from "mongoose";
 import {logger} from "./logger";
+import { getPendingMigrations, migrateUp } from "../migrations";
 
 const MONGODB_URI = process.env.MONGODB_URI;
-// Migration function to add topic field to existing sessions
-const runTopicFieldMigration = async () => {
-  try {
-    // Import ChatSession model here to avoid circular imports
-    const { ChatSession } = await import('../models/ChatSession');
-    
-    // Check if migration is needed
-    const sessionWithoutTopic = await ChatSession.findOne({ topic: { $exists: false } });
-    
-    if (sessionWithoutTopic) {
-      logger.info("Running topic field migration for existing chat sessions...");
-      
-      const result = await ChatSession.updateMany(
-        { topic: { $exists: false } },
-        { $set: { topic: null } }
-      );
-      
-      logger.info(`Topic field migration completed: ${result.modifiedCount} documents updated`);
-    } else {
-      logger.info("Topic field migration not needed - all sessions already have topic field");
-    }
-  } catch (error) {
-    logger.error("Topic field migration failed:", error);
-    // Don't exit the process - let the app continue running
+
+// Schema changes are applied with `npm run migrate`; set MIGRATE_ON_START=true
+// to apply them automatically when the server boots
+const checkMigrations = async () => {
+  if (process.env.MIGRATE_ON_START === "true") {
+    const applied = await migrateUp();
+    if (applied.length) logger.info(`Applied migrations: ${applied.join(", ")}`);
+    return;
+  }
+
+  const pending = await getPendingMigrations();
+  if (pending.length) {
+    logger.warn(`Pending database migrations: ${pending.join(", ")} - run "npm run migrate"`);
   }
 };
 
@@ -38,12 +28,14 @@ export const connectDB = async () => {
       throw new Error('MONGODB_URI environment variable is not defined');
     }
 
-    console.log('Attempting to connect to MongoDB...');
+    logger.info('Attempting to connect to MongoDB...');
     await mongoose.connect(MONGODB_URI);
-    console.log('MongoDB connected successfully');
+    logger.info('MongoDB connected successfully');
+
+    await checkMigrations();
     
   } catch (error) {
-    console.error('MongoDB connection error:', error);
+    logger.error('MongoDB connection error:', error);
     process.exit(1);
   }
 };
\ No newline at end of file
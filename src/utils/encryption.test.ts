@@ -0,0 +1,120 @@
+import crypto from "crypto";
+import { Types } from "mongoose";
+import { IDataKey } from "../models/DataKey";
+
+const OLD_KEY = `old:${crypto.randomBytes(32).toString("base64")}`;
+const NEW_KEY = `new:${crypto.randomBytes(32).toString("base64")}`;
+
+// Master keys are read once at import, so each configuration gets its own
+// copy of the module (and of the DataKey model it uses)
+const load = (masterKeys: string) => {
+  process.env.ENCRYPTION_MASTER_KEYS = masterKeys;
+  let modules!: {
+    encryption: typeof import("./encryption");
+    DataKey: typeof import("../models/DataKey").DataKey;
+  };
+  jest.isolateModules(() => {
+    require("./logger").logger.silent = true;
+    modules = {
+      encryption: require("./encryption"),
+      DataKey: require("../models/DataKey").DataKey,
+    };
+  });
+  return modules;
+};
+
+// A DataKey collection held in memory
+const storeKeys = ({ DataKey }: ReturnType<typeof load>, keys: Map<string, IDataKey>) => {
+  const findOne = async () => [...keys.values()].find((key) => key.active) ?? null;
+  const create = async (fields: object) => {
+    const key = new DataKey(fields);
+    keys.set(String(key._id), key);
+    return key;
+  };
+  const findById = async (id: string) => keys.get(String(id)) ?? null;
+
+  jest.spyOn(DataKey, "findOne").mockImplementation(findOne as unknown as typeof DataKey.findOne);
+  jest.spyOn(DataKey, "create").mockImplementation(create as unknown as typeof DataKey.create);
+  jest.spyOn(DataKey, "findById").mockImplementation(findById as unknown as typeof DataKey.findById);
+};
+
+describe("encryption", () => {
+  const userId = new Types.ObjectId();
+
+  afterAll(() => {
+    delete process.env.ENCRYPTION_MASTER_KEYS;
+  });
+
+  it("round-trips strings and JSON through the user's data key", async () => {
+    const modules = load(OLD_KEY);
+    const keys = new Map<string, IDataKey>();
+    storeKeys(modules, keys);
+    const { encryptString, decryptString, encryptJSON, decryptJSON, isEncrypted } =
+      modules.encryption;
+
+    const sealed = await encryptString(userId, "I have been feeling low");
+    const json = await encryptJSON(userId, { riskLevel: 2, themes: ["work"] });
+
+    expect(isEncrypted(sealed)).toBe(true);
+    expect(sealed).not.toContain("feeling low");
+    expect(await decryptString(sealed)).toBe("I have been feeling low");
+    expect(await decryptJSON(json)).toEqual({ riskLevel: 2, themes: ["work"] });
+    // One data key per user, reused for every value
+    expect(keys.size).toBe(1);
+    expect(await encryptString(userId, sealed)).toBe(sealed);
+  });
+
+  it("refuses ciphertext that has been tampered with", async () => {
+    const modules = load(OLD_KEY);
+    storeKeys(modules, new Map());
+    const { encryptString, decryptString } = modules.encryption;
+
+    const sealed = await encryptString(userId, "secret");
+    const tampered = sealed.slice(0, -4) + (sealed.endsWith("AAAA") ? "BBBB" : "AAAA");
+
+    await expect(decryptString(tampered)).rejects.toThrow();
+  });
+
+  it("passes plaintext through when no master key is configured", async () => {
+    const { encryption } = load("");
+
+    expect(encryption.isEncryptionEnabled()).toBe(false);
+    expect(await encryption.encryptString(userId, "note")).toBe("note");
+    expect(await encryption.decryptString("note")).toBe("note");
+  });
+
+  it("keeps data readable across a master key rotation", async () => {
+    const keys = new Map<string, IDataKey>();
+    const before = load(OLD_KEY);
+    storeKeys(before, keys);
+    const sealed = await before.encryption.encryptString(userId, "remember this");
+
+    // New key first, old key still listed: re-wrap every data key
+    const during = load(`${NEW_KEY},${OLD_KEY}`);
+    expect(during.encryption.getActiveMasterKeyId()).toBe("new");
+    for (const dataKey of keys.values()) {
+      const rewrapped = during.encryption.wrapKey(during.encryption.unwrapKey(dataKey));
+      dataKey.wrappedKey = rewrapped.wrappedKey;
+      dataKey.masterKeyId = rewrapped.masterKeyId;
+    }
+
+    // Afterwards the old master key can be dropped
+    const after = load(NEW_KEY);
+    storeKeys(after, keys);
+    expect(await after.encryption.decryptString(sealed)).toBe("remember this");
+  });
+
+  it("cannot unwrap data keys once their master key is gone", async () => {
+    const keys = new Map<string, IDataKey>();
+    const before = load(OLD_KEY);
+    storeKeys(before, keys);
+    const sealed = await before.encryption.encryptString(userId, "remember this");
+
+    const after = load(NEW_KEY);
+    storeKeys(after, keys);
+
+    await expect(after.encryption.decryptString(sealed)).rejects.toThrow(
+      'Encryption master key "old" is not configured'
+    );
+  });
+});
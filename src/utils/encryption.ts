@@ -0,0 +1,136 @@
+import crypto from "crypto";
+import { Types } from "mongoose";
+import { DataKey, IDataKey } from "../models/DataKey";
+import { logger } from "./logger";
+
+const PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+// ENCRYPTION_MASTER_KEYS="id:base64key,oldId:base64key" - the first key
+// (or ENCRYPTION_ACTIVE_KEY_ID) wraps new data keys, the rest only unwrap
+const loadMasterKeys = (): MasterKey[] =>
+  (process.env.ENCRYPTION_MASTER_KEYS || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [id, value] = entry.split(":");
+      const key = Buffer.from(value || "", "base64");
+      if (!id || key.length !== 32) {
+        throw new Error(`Invalid encryption master key "${id}": expected id:base64(32 bytes)`);
+      }
+      return { id, key };
+    });
+
+const masterKeys = loadMasterKeys();
+const activeMasterKey =
+  masterKeys.find((k) => k.id === process.env.ENCRYPTION_ACTIVE_KEY_ID) || masterKeys[0];
+
+if (!activeMasterKey) {
+  logger.warn("ENCRYPTION_MASTER_KEYS is not set - chat content and notes are stored unencrypted");
+}
+
+export const isEncryptionEnabled = () => Boolean(activeMasterKey);
+
+export const getActiveMasterKeyId = () => activeMasterKey?.id;
+
+export const isEncrypted = (value: unknown): value is string =>
+  typeof value === "string" && value.startsWith(PREFIX);
+
+const seal = (key: Buffer, plaintext: Buffer) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((b) => b.toString("base64")).join(":");
+};
+
+const open = (key: Buffer, sealed: string) => {
+  const [iv, tag, ciphertext] = sealed.split(":").map((part) => Buffer.from(part, "base64"));
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+const getMasterKey = (id: string) => {
+  const masterKey = masterKeys.find((k) => k.id === id);
+  if (!masterKey) {
+    throw new Error(`Encryption master key "${id}" is not configured`);
+  }
+  return masterKey.key;
+};
+
+export const wrapKey = (key: Buffer) => {
+  if (!activeMasterKey) throw new Error("Encryption is not configured");
+  return { wrappedKey: seal(activeMasterKey.key, key), masterKeyId: activeMasterKey.id };
+};
+
+export const unwrapKey = (dataKey: Pick<IDataKey, "wrappedKey" | "masterKeyId">) =>
+  open(getMasterKey(dataKey.masterKeyId), dataKey.wrappedKey);
+
+// Unwrapped data keys, by data key id
+const keyCache = new Map<string, Buffer>();
+
+export const clearKeyCache = () => keyCache.clear();
+
+const getDataKeyById = async (id: string) => {
+  const cached = keyCache.get(id);
+  if (cached) return cached;
+
+  const dataKey = await DataKey.findById(id);
+  if (!dataKey) throw new Error(`Data key ${id} not found`);
+  const key = unwrapKey(dataKey);
+  keyCache.set(id, key);
+  return key;
+};
+
+// The user's active data key, created on first use
+export const getActiveDataKey = async (userId: Types.ObjectId | string) => {
+  const id = new Types.ObjectId(String(userId));
+  let dataKey = await DataKey.findOne({ userId: id, active: true });
+  if (!dataKey) {
+    try {
+      dataKey = await DataKey.create({ userId: id, ...wrapKey(crypto.randomBytes(32)) });
+    } catch (error: any) {
+      // Another request created it first
+      if (error?.code !== 11000) throw error;
+      dataKey = await DataKey.findOne({ userId: id, active: true }).orFail();
+    }
+  }
+  const dataKeyId = String(dataKey._id);
+  if (!keyCache.has(dataKeyId)) keyCache.set(dataKeyId, unwrapKey(dataKey));
+  return { id: dataKeyId, key: keyCache.get(dataKeyId)! };
+};
+
+/**
+ * Encrypt a string for a user. Values that are already encrypted are
+ * returned as-is, and plaintext passes through when encryption is off.
+ */
+export const encryptString = async (userId: Types.ObjectId | string, value: string) => {
+  if (!isEncryptionEnabled() || isEncrypted(value)) return value;
+  const dataKey = await getActiveDataKey(userId);
+  return `${PREFIX}${dataKey.id}:${seal(dataKey.key, Buffer.from(value, "utf8"))}`;
+};
+
+export const decryptString = async (value: string) => {
+  if (!isEncrypted(value)) return value;
+  const rest = value.substring(PREFIX.length);
+  const separator = rest.indexOf(":");
+  const key = await getDataKeyById(rest.substring(0, separator));
+  return open(key, rest.substring(separator + 1)).toString("utf8");
+};
+
+// Structured values (e.g. analysis objects) are stored as encrypted JSON
+export const encryptJSON = async (userId: Types.ObjectId | string, value: unknown) =>
+  value === undefined || value === null || isEncrypted(value)
+    ? value
+    : isEncryptionEnabled()
+    ? encryptString(userId, JSON.stringify(value))
+    : value;
+
+export const decryptJSON = async <T = any>(value: unknown): Promise<T> =>
+  (isEncrypted(value) ? JSON.parse(await decryptString(value)) : value) as T;
@@ -0,0 +1,117 @@
+import { Types } from "mongoose";
+import { Goal, IGoal } from "../models/Goal";
+import { MessageAnalysis } from "../types/inngest";
+import { generateStructured } from "../llm/structured";
+import { goalReviewSchema } from "../llm/schemas";
+import { logger } from "./logger";
+
+// Never let unanswered proposals pile up
+const MAX_OPEN_PROPOSALS = 3;
+
+// Active goals, most recently worked on first
+export const getActiveGoals = (userId: Types.ObjectId | string) =>
+  Goal.find({ userId: new Types.ObjectId(String(userId)), status: "active" })
+    .sort({ updatedAt: -1 })
+    .limit(10);
+
+// Takes decrypted goals (see decryptGoal), since it shows the latest note
+export const describeGoals = (goals: IGoal[]) =>
+  goals
+    .map((goal) => {
+      const lastNote = goal.progressNotes[goal.progressNotes.length - 1];
+      return `- ${goal.title}${goal.description ? `: ${goal.description}` : ""}${
+        lastNote ? ` (latest progress: ${lastNote.note})` : ""
+      }`;
+    })
+    .join("\n");
+
+/**
+ * After an exchange, let the model attach progress notes to active goals
+ * (based on the analysis' progress indicators) and propose new goals the
+ * user can accept or decline.
+ */
+export const reviewGoals = async (input: {
+  userId: Types.ObjectId | string;
+  sessionId?: string;
+  messageId?: string;
+  message: string;
+  analysis: MessageAnalysis;
+}) => {
+  const userId = new Types.ObjectId(String(input.userId));
+  const [activeGoals, proposed] = await Promise.all([
+    getActiveGoals(userId),
+    Goal.find({ userId, status: "proposed" }),
+  ]);
+
+  const indicators = input.analysis.progressIndicators || [];
+  const canPropose = proposed.length < MAX_OPEN_PROPOSALS;
+  if (!canPropose && (activeGoals.length === 0 || indicators.length === 0)) {
+    return { proposed: 0, notes: 0 };
+  }
+
+  const prompt = `You help a therapist track the user's therapeutic goals.
+
+Active goals:
+${activeGoals.map((g) => `- [${g._id}] ${g.title}`).join("\n") || "(none)"}
+
+Goals already proposed and awaiting the user's answer:
+${proposed.map((g) => `- ${g.title}`).join("\n") || "(none)"}
+
+User message: ${input.message}
+Progress indicators from analysis: ${JSON.stringify(indicators)}
+Themes: ${JSON.stringify(input.analysis.themes || [])}
+
+Return ONLY a valid JSON object with no markdown formatting or additional text:
+{
+  "progress": [{ "goalId": "id of an active goal", "note": "one sentence on progress or setbacks" }],
+  "proposedGoals": [{ "title": "short, concrete goal", "description": "why it would help" }]
+}
+Only add progress for goals the message actually relates to. ${
+    canPropose
+      ? "Propose at most one new goal, and only if the user expressed something they want to change that no existing goal covers."
+      : "Do not propose new goals."
+  }`;
+
+  const review = await generateStructured(prompt, goalReviewSchema, {
+    task: "goals",
+    userId: String(userId),
+  });
+
+  let notes = 0;
+  for (const item of review.progress) {
+    const goal = activeGoals.find((g) => String(g._id) === item.goalId);
+    if (!goal) continue;
+    goal.progressNotes.push({
+      note: item.note.substring(0, 500),
+      indicators,
+      sessionId: input.sessionId,
+      messageId: input.messageId ? new Types.ObjectId(input.messageId) : undefined,
+      createdAt: new Date(),
+    });
+    await goal.save();
+    notes++;
+  }
+
+  let created = 0;
+  if (canPropose) {
+    const known = new Set(
+      [...activeGoals, ...proposed].map((g) => g.title.toLowerCase())
+    );
+    for (const item of review.proposedGoals) {
+      if (known.has(item.title.toLowerCase())) continue;
+      await Goal.create({
+        userId,
+        title: item.title.substring(0, 200),
+        description: item.description,
+        status: "proposed",
+        source: "assistant",
+        sessionId: input.sessionId,
+      });
+      created++;
+      break;
+    }
+  }
+
+  logger.info("Goal review completed", { userId, proposed: created, notes });
+  return { proposed: created, notes };
+};
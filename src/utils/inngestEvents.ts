@@ -23,19 +23,16 @@ export const sendTherapySessionEvent = async (sessionData: any) => {
   }
 };
 
-// Add more event sending functions as needed
-export const sendMoodUpdateEvent = async (moodData: any) => {
+// Only ids: Inngest stores event payloads, and mood notes are encrypted
+// at rest. Functions load what they need from the database.
+export const sendMoodUpdateEvent = async (data: { userId: string; moodId: string }) => {
   try {
     await inngest.send({
       name: "mood/updated",
       data: {
-        userId: moodData.userId,
-        mood: moodData.mood,
+        userId: data.userId,
+        moodId: data.moodId,
         timestamp: new Date().toISOString(),
-        context: moodData.context,
-        activities: moodData.activities,
-        notes: moodData.notes,
-        ...moodData,
       },
     });
     logger.info("Mood update event sent successfully");
@@ -64,4 +61,100 @@ export const sendActivityCompletionEvent = async (activityData: any) => {
     logger.error("Failed to send activity completion event:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export const sendAccountDeletionRequestedEvent = async (data: {
+  userId: string;
+  scheduledFor: Date;
+}) => {
+  try {
+    await inngest.send({
+      name: "account/deletion.requested",
+      data: {
+        userId: data.userId,
+        scheduledFor: data.scheduledFor.toISOString(),
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.info("Account deletion requested event sent successfully");
+  } catch (error) {
+    logger.error("Failed to send account deletion requested event:", error);
+    throw error;
+  }
+};
+
+export const sendAccountDeletionCancelledEvent = async (userId: string) => {
+  try {
+    await inngest.send({
+      name: "account/deletion.cancelled",
+      data: {
+        userId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.info("Account deletion cancelled event sent successfully");
+  } catch (error) {
+    logger.error("Failed to send account deletion cancelled event:", error);
+    throw error;
+  }
+};
+
+export const sendSessionCompletedEvent = async (data: {
+  sessionId: string;
+  userId: string;
+}) => {
+  try {
+    await inngest.send({
+      name: "therapy/session.completed",
+      data: {
+        sessionId: data.sessionId,
+        userId: data.userId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.info("Session completed event sent successfully");
+  } catch (error) {
+    logger.error("Failed to send session completed event:", error);
+    throw error;
+  }
+};
+
+// Queue analysis of a user message; the result is stored on the reply
+// (or on the message itself when there is no reply)
+export const sendMessageAnalysisEvent = async (data: {
+  sessionId: string;
+  userId: string;
+  messageId: string;
+  replyId?: string;
+  locale: string;
+}) => {
+  try {
+    await inngest.send({
+      name: "therapy/session.message",
+      data: {
+        ...data,
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.info("Message analysis event sent successfully");
+  } catch (error) {
+    logger.error("Failed to send message analysis event:", error);
+    throw error;
+  }
+};
+
+export const sendTopicRefreshEvent = async (sessionId: string) => {
+  try {
+    await inngest.send({
+      name: "therapy/session.topic",
+      data: {
+        sessionId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.info("Topic refresh event sent successfully");
+  } catch (error) {
+    logger.error("Failed to send topic refresh event:", error);
+    throw error;
+  }
+};
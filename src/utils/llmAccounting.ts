@@ -0,0 +1,115 @@
+import { Types } from "mongoose";
+import { LLMCall } from "../models/LLMCall";
+import { LLM_CALL_OUTCOMES, LLMCallOutcome, TokenUsage } from "../llm/types";
+import { estimateCost } from "../llm/pricing";
+
+export interface LLMCallRecord {
+  userId?: string;
+  provider: string;
+  model: string;
+  task?: string;
+  usage: TokenUsage;
+  estimatedTokens: boolean;
+  latencyMs: number;
+  outcome: LLMCallOutcome;
+}
+
+export const recordLLMCall = async (call: LLMCallRecord) => {
+  await LLMCall.create({
+    userId:
+      call.userId && Types.ObjectId.isValid(call.userId)
+        ? new Types.ObjectId(call.userId)
+        : undefined,
+    provider: call.provider,
+    llmModel: call.model,
+    task: call.task || "unknown",
+    promptTokens: call.usage.promptTokens,
+    responseTokens: call.usage.responseTokens,
+    estimatedTokens: call.estimatedTokens,
+    costUsd: estimateCost(call.model, call.usage),
+    latencyMs: call.latencyMs,
+    outcome: call.outcome,
+  });
+};
+
+export const USAGE_REPORT_GROUPS = ["day", "user", "task", "model"] as const;
+export type UsageReportGroup = (typeof USAGE_REPORT_GROUPS)[number];
+
+const GROUP_FIELDS: Record<UsageReportGroup, unknown> = {
+  day: { $dateToString: { format: "%Y-%m-%d", date: "$createdAt" } },
+  user: "$userId",
+  task: "$task",
+  model: "$llmModel",
+};
+
+export interface UsageReportFilter {
+  from: Date;
+  to: Date;
+  groupBy: UsageReportGroup[];
+  userId?: string;
+  task?: string;
+  model?: string;
+}
+
+/**
+ * Totals of recorded model calls, grouped by any mix of day (UTC), user,
+ * task and model. Cost only covers calls to models with a known price.
+ */
+export const getLLMUsageReport = async (filter: UsageReportFilter) => {
+  const match: Record<string, unknown> = {
+    createdAt: { $gte: filter.from, $lte: filter.to },
+  };
+  if (filter.userId) match.userId = new Types.ObjectId(filter.userId);
+  if (filter.task) match.task = filter.task;
+  if (filter.model) match.llmModel = filter.model;
+
+  const outcomeCounts = Object.fromEntries(
+    LLM_CALL_OUTCOMES.map((outcome) => [
+      outcome,
+      { $sum: { $cond: [{ $eq: ["$outcome", outcome] }, 1, 0] } },
+    ])
+  );
+
+  const groups = await LLMCall.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: Object.fromEntries(filter.groupBy.map((key) => [key, GROUP_FIELDS[key]])),
+        calls: { $sum: 1 },
+        promptTokens: { $sum: "$promptTokens" },
+        responseTokens: { $sum: "$responseTokens" },
+        estimatedCalls: { $sum: { $cond: ["$estimatedTokens", 1, 0] } },
+        costUsd: { $sum: { $ifNull: ["$costUsd", 0] } },
+        unpricedCalls: { $sum: { $cond: [{ $eq: [{ $type: "$costUsd" }, "missing"] }, 1, 0] } },
+        avgLatencyMs: { $avg: "$latencyMs" },
+        maxLatencyMs: { $max: "$latencyMs" },
+        ...outcomeCounts,
+      },
+    },
+    { $sort: { _id: 1 } },
+  ]);
+
+  const rows = groups.map(({ _id, avgLatencyMs, ...totals }) => {
+    const outcomes = Object.fromEntries(LLM_CALL_OUTCOMES.map((o) => [o, totals[o]]));
+    for (const outcome of LLM_CALL_OUTCOMES) delete totals[outcome];
+    return {
+      ..._id,
+      ...totals,
+      avgLatencyMs: Math.round(avgLatencyMs),
+      outcomes,
+    };
+  });
+
+  const sum = (key: "calls" | "promptTokens" | "responseTokens" | "costUsd") =>
+    rows.reduce((total, row) => total + row[key], 0);
+
+  return {
+    totals: {
+      calls: sum("calls"),
+      promptTokens: sum("promptTokens"),
+      responseTokens: sum("responseTokens"),
+      costUsd: sum("costUsd"),
+    },
+    groups: rows,
+  };
+};
@@ -0,0 +1,109 @@
+import "mingo/init/system";
+import { update } from "mingo";
+import { Types } from "mongoose";
+import { ChatSession } from "../models/chat";
+import { LLMCall } from "../models/LLMCall";
+import { setLLMProvider } from "../llm";
+import { StubProvider } from "../llm/stub";
+import { MessageAnalysis } from "../types/inngest";
+import { FALLBACK_ANALYSIS, analyzeMessage, storeMessageAnalysis } from "./messageAnalysis";
+
+const userId = new Types.ObjectId();
+
+const ANALYSIS: MessageAnalysis = {
+  emotionalState: "anxious",
+  themes: ["work"],
+  riskLevel: 2,
+  recommendedApproach: "supportive",
+  progressIndicators: [],
+};
+
+describe("storeMessageAnalysis", () => {
+  // Apply the update to an in-memory session the way MongoDB would
+  const storeSession = (session: Record<string, any>) =>
+    jest.spyOn(ChatSession, "updateOne").mockImplementation(((
+      filter: Record<string, unknown>,
+      change: Parameters<typeof update>[1],
+      options: { arrayFilters: Record<string, unknown>[] }
+    ) => {
+      if (filter.sessionId === session.sessionId) update(session, change, options.arrayFilters);
+      return Promise.resolve({ acknowledged: true, modifiedCount: 1 });
+    }) as unknown as typeof ChatSession.updateOne);
+
+  const buildSession = () => ({
+    sessionId: "s1",
+    messages: [
+      { _id: new Types.ObjectId(), role: "user", content: "hi" },
+      {
+        _id: new Types.ObjectId(),
+        role: "assistant",
+        content: "hello",
+        metadata: { analysisStatus: "pending" },
+      },
+      { _id: new Types.ObjectId(), role: "user", content: "newer message" },
+    ],
+  });
+
+  it("writes the analysis and progress onto only the given message", async () => {
+    const session = buildSession();
+    storeSession(session);
+    const [user, , newer] = session.messages.map((m) => JSON.stringify(m));
+
+    await storeMessageAnalysis({
+      sessionId: "s1",
+      userId,
+      messageId: String(session.messages[1]._id),
+      status: "completed",
+      analysis: ANALYSIS,
+    });
+
+    expect(session.messages[1].metadata).toEqual({
+      analysisStatus: "completed",
+      analysis: ANALYSIS,
+      progress: { emotionalState: "anxious", riskLevel: 2 },
+    });
+    expect(JSON.stringify(session.messages[0])).toBe(user);
+    expect(JSON.stringify(session.messages[2])).toBe(newer);
+  });
+
+  it("marks a failed analysis without inventing one", async () => {
+    const session = buildSession();
+    storeSession(session);
+
+    await storeMessageAnalysis({
+      sessionId: "s1",
+      userId,
+      messageId: String(session.messages[1]._id),
+      status: "failed",
+    });
+
+    expect(session.messages[1].metadata).toEqual({ analysisStatus: "failed" });
+  });
+});
+
+describe("analyzeMessage", () => {
+  class ReplyProvider extends StubProvider {
+    constructor(private reply: string) {
+      super();
+    }
+
+    async generateText() {
+      return this.reply;
+    }
+  }
+
+  beforeEach(() => jest.spyOn(LLMCall, "create").mockResolvedValue([]));
+  afterEach(() => setLLMProvider(new StubProvider()));
+
+  it("returns the model's analysis", async () => {
+    setLLMProvider(new ReplyProvider(JSON.stringify(ANALYSIS)));
+
+    expect(await analyzeMessage("work is getting to me")).toEqual(ANALYSIS);
+  });
+
+  it("falls back to a neutral analysis when the model keeps failing", async () => {
+    setLLMProvider(new ReplyProvider("not json"));
+
+    expect(await analyzeMessage("work is getting to me")).toEqual(FALLBACK_ANALYSIS);
+  });
+});
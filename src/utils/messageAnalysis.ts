@@ -0,0 +1,113 @@
+import { Types } from "mongoose";
+import { MessageAnalysis } from "../types/inngest";
+import { ChatSession, MessageAnalysisStatus } from "../models/chat";
+import { generateStructured } from "../llm/structured";
+import { messageAnalysisSchema } from "../llm/schemas";
+import { logger } from "./logger";
+import { decryptJSON, decryptString, encryptJSON, encryptString } from "./encryption";
+
+// Used when the model cannot produce a valid analysis; deliberately
+// neutral so it does not add themes to the user's memory
+export const FALLBACK_ANALYSIS: MessageAnalysis = {
+  emotionalState: "neutral",
+  themes: [],
+  riskLevel: 0,
+  recommendedApproach: "supportive",
+  progressIndicators: [],
+};
+
+/**
+ * Analyze one user message. Never throws: after the structured-output
+ * layer gives up, the fallback analysis is returned instead.
+ */
+export const analyzeMessage = async (
+  message: string,
+  { context, userId }: { context?: Record<string, unknown>; userId?: string } = {}
+): Promise<MessageAnalysis> => {
+  const prompt = `Analyze this therapy message and provide insights. Return ONLY a valid JSON object with no markdown formatting or additional text.
+Message: ${message}
+${context ? `Context: ${JSON.stringify(context)}\n` : ""}
+Required JSON structure:
+{
+  "emotionalState": "string",
+  "themes": ["string"],
+  "riskLevel": 0,
+  "recommendedApproach": "string",
+  "progressIndicators": ["string"]
+}
+riskLevel is 0-10: 0 means no concern, 10 means immediate danger to self or others.`;
+
+  try {
+    return await generateStructured(prompt, messageAnalysisSchema, { task: "analysis", userId });
+  } catch (error) {
+    logger.warn("Message analysis failed, using fallback:", error);
+    return { ...FALLBACK_ANALYSIS };
+  }
+};
+
+// Load one stored message without pulling the rest of the session
+export const findStoredMessage = async (sessionId: string, messageId: string) => {
+  if (!Types.ObjectId.isValid(messageId)) return null;
+  const session = await ChatSession.findOne(
+    { sessionId },
+    { userId: 1, messages: { $elemMatch: { _id: new Types.ObjectId(messageId) } } }
+  ).lean();
+  const message = session?.messages?.[0];
+  return message ? { userId: session.userId, message } : null;
+};
+
+// Decrypted text of a stored message, or null if it no longer exists
+export const loadMessageText = async (sessionId: string, messageId: string) => {
+  const stored = await findStoredMessage(sessionId, messageId);
+  return stored ? decryptString(stored.message.content) : null;
+};
+
+/**
+ * Decrypted text of a user message together with the analysis stored for
+ * it (on the reply, see storeMessageAnalysis), or null if either is gone.
+ */
+export const loadAnalyzedMessage = async (
+  sessionId: string,
+  messageId: string,
+  analyzedId = messageId
+) => {
+  const [message, analyzed] = await Promise.all([
+    loadMessageText(sessionId, messageId),
+    findStoredMessage(sessionId, analyzedId),
+  ]);
+  const analysis = analyzed?.message.metadata?.analysis;
+  if (message === null || !analysis) return null;
+  return { message, analysis: await decryptJSON<MessageAnalysis>(analysis) };
+};
+
+/**
+ * Write an analysis result onto a stored message. Only that message is
+ * touched, so replies saved in the meantime are not overwritten.
+ */
+export const storeMessageAnalysis = async (input: {
+  sessionId: string;
+  userId: Types.ObjectId | string;
+  messageId: string;
+  status: MessageAnalysisStatus;
+  analysis?: MessageAnalysis;
+}) => {
+  const update: Record<string, unknown> = {
+    "messages.$[target].metadata.analysisStatus": input.status,
+  };
+  if (input.analysis) {
+    update["messages.$[target].metadata.analysis"] = await encryptJSON(
+      input.userId,
+      input.analysis
+    );
+    update["messages.$[target].metadata.progress"] = {
+      emotionalState: await encryptString(input.userId, input.analysis.emotionalState),
+      riskLevel: input.analysis.riskLevel,
+    };
+  }
+
+  await ChatSession.updateOne(
+    { sessionId: input.sessionId },
+    { $set: update },
+    { arrayFilters: [{ "target._id": new Types.ObjectId(input.messageId) }] }
+  );
+};
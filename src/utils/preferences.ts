@@ -0,0 +1,54 @@
+import { IUserPreferences } from "../models/User";
+
+const STYLE_GUIDANCE: Record<IUserPreferences["therapeuticStyle"], string> = {
+  supportive: "Lead with warmth, validation and gentle reflection.",
+  cognitive_behavioral:
+    "Use a cognitive behavioral approach: help the user notice thoughts, examine evidence and try small behavioral experiments.",
+  mindfulness:
+    "Favor mindfulness-based techniques: grounding, present-moment awareness and self-compassion.",
+  solution_focused:
+    "Be solution focused: look for what is already working and concrete next steps.",
+  motivational:
+    "Use motivational interviewing: explore ambivalence and draw out the user's own reasons for change.",
+};
+
+const LENGTH_GUIDANCE: Record<IUserPreferences["responseLength"], string> = {
+  short: "Keep the reply brief: two or three sentences.",
+  medium: "Keep the reply to one or two short paragraphs.",
+  long: "A longer, more detailed reply is welcome when it helps.",
+};
+
+// Prompt instructions that make the reply follow the user's settings
+export const describeResponsePreferences = (preferences?: Partial<IUserPreferences>) => {
+  if (!preferences) return "";
+
+  const lines: string[] = [];
+  if (preferences.therapeuticStyle && STYLE_GUIDANCE[preferences.therapeuticStyle]) {
+    lines.push(`- ${STYLE_GUIDANCE[preferences.therapeuticStyle]}`);
+  }
+  if (preferences.responseLength && LENGTH_GUIDANCE[preferences.responseLength]) {
+    lines.push(`- ${LENGTH_GUIDANCE[preferences.responseLength]}`);
+  }
+  if (preferences.language && !preferences.language.toLowerCase().startsWith("en")) {
+    lines.push(`- Reply in the language with BCP 47 tag "${preferences.language}".`);
+  }
+  if (preferences.timezone && isValidTimezone(preferences.timezone)) {
+    const localTime = new Date().toLocaleString("en-US", {
+      timeZone: preferences.timezone,
+      weekday: "long",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+    lines.push(`- It is currently ${localTime} for the user.`);
+  }
+  return lines.join("\n");
+};
+
+export const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,12 @@
+// Helpers for list endpoints. Query strings themselves are parsed and
+// checked by the route schemas in validation/.
+
+// Mongo filter for an optional from/to range, or undefined for neither
+export const dateRangeFilter = ({ from, to }: { from?: Date; to?: Date }) => {
+  if (!from && !to) return undefined;
+  return { ...(from ? { $gte: from } : {}), ...(to ? { $lte: to } : {}) };
+};
+
+// Cursors are opaque to clients: base64url-encoded JSON
+export const encodeCursor = (value: Record<string, unknown>) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
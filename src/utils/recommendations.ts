@@ -0,0 +1,34 @@
+import { RecommendationDifficulty } from "../models/Recommendation";
+import { RecommendationsOutput } from "../llm/schemas";
+
+export interface RecommendationInput {
+  title: string;
+  type?: string;
+  reasoning: string;
+  benefits: string[];
+  difficulty: RecommendationDifficulty;
+  duration?: number;
+}
+
+const DIFFICULTIES: RecommendationDifficulty[] = ["easy", "moderate", "challenging"];
+
+/**
+ * Turn validated model output into recommendations we can store: unknown
+ * activity types are dropped and difficulty falls back to "easy".
+ */
+export const normalizeRecommendations = (
+  output: RecommendationsOutput,
+  allowedTypes: string[]
+): RecommendationInput[] =>
+  output.recommendations.slice(0, 5).map((item) => {
+    const type = item.type?.trim().toLowerCase();
+    const difficulty = item.difficulty?.trim().toLowerCase() as RecommendationDifficulty;
+    return {
+      title: item.activity.substring(0, 200),
+      type: type && allowedTypes.includes(type) ? type : undefined,
+      reasoning: item.reasoning,
+      benefits: item.benefits,
+      difficulty: DIFFICULTIES.includes(difficulty) ? difficulty : "easy",
+      duration: item.duration ? Math.round(item.duration) : undefined,
+    };
+  });
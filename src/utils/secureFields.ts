@@ -0,0 +1,155 @@
+import { decryptJSON, decryptString, encryptJSON, encryptString } from "./encryption";
+
+// Which fields are sensitive, and how to encrypt/decrypt them on chat
+// sessions, mood entries, therapy memory and goals. Encryption happens in
+// the models' pre-save hooks; controllers decrypt explicitly when they read.
+
+const toPlain = (doc: any) => (typeof doc?.toObject === "function" ? doc.toObject() : { ...doc });
+
+export const encryptChatSessionFields = async (session: any) => {
+  const userId = session.userId;
+  for (const message of session.messages || []) {
+    if (typeof message.content === "string") {
+      const content = await encryptString(userId, message.content);
+      if (content !== message.content) message.content = content;
+    }
+    if (message.metadata?.analysis !== undefined) {
+      const analysis = await encryptJSON(userId, message.metadata.analysis);
+      if (analysis !== message.metadata.analysis) message.metadata.analysis = analysis;
+    }
+    const progress = message.metadata?.progress;
+    if (typeof progress?.emotionalState === "string") {
+      const emotionalState = await encryptString(userId, progress.emotionalState);
+      if (emotionalState !== progress.emotionalState) progress.emotionalState = emotionalState;
+    }
+  }
+  if (typeof session.summary === "string") {
+    const summary = await encryptString(userId, session.summary);
+    if (summary !== session.summary) session.summary = summary;
+  }
+  if (session.closingSummary !== undefined && session.closingSummary !== null) {
+    const closingSummary = await encryptJSON(userId, session.closingSummary);
+    if (closingSummary !== session.closingSummary) session.closingSummary = closingSummary;
+  }
+};
+
+// Plain copy of a stored message with its content readable
+export const decryptMessage = async <T extends Record<string, any>>(message: T): Promise<T> => {
+  const plain = toPlain(message);
+  plain.content = await decryptString(plain.content);
+  if (plain.metadata?.analysis !== undefined) {
+    plain.metadata = {
+      ...plain.metadata,
+      analysis: await decryptJSON(plain.metadata.analysis),
+    };
+  }
+  if (typeof plain.metadata?.progress?.emotionalState === "string") {
+    plain.metadata = {
+      ...plain.metadata,
+      progress: {
+        ...plain.metadata.progress,
+        emotionalState: await decryptString(plain.metadata.progress.emotionalState),
+      },
+    };
+  }
+  return plain;
+};
+
+export const decryptMessages = <T extends Record<string, any>>(messages: T[]) =>
+  Promise.all((messages || []).map((message) => decryptMessage(message)));
+
+// Plain copy of a chat session with messages and summaries readable
+export const decryptChatSession = async <T extends object>(session: T): Promise<T> => {
+  const plain = toPlain(session);
+  if (Array.isArray(plain.messages)) {
+    plain.messages = await decryptMessages(plain.messages);
+  }
+  if (typeof plain.summary === "string") {
+    plain.summary = await decryptString(plain.summary);
+  }
+  if (plain.closingSummary !== undefined && plain.closingSummary !== null) {
+    plain.closingSummary = await decryptJSON(plain.closingSummary);
+  }
+  return plain;
+};
+
+export const encryptMoodFields = async (mood: any) => {
+  if (typeof mood.note === "string") {
+    const note = await encryptString(mood.userId, mood.note);
+    if (note !== mood.note) mood.note = note;
+  }
+};
+
+// Plain copy of a mood entry with its note readable
+export const decryptMood = async <T extends object>(mood: T): Promise<T> => {
+  const plain = toPlain(mood);
+  if (typeof plain.note === "string") {
+    plain.note = await decryptString(plain.note);
+  }
+  return plain;
+};
+
+// Stored Map paths come back as a Map from documents and as a plain
+// object from lean queries
+const mapEntries = (value: any): [string, string][] =>
+  value instanceof Map ? [...value.entries()] : Object.entries(value || {});
+
+export const encryptTherapyMemoryFields = async (memory: any) => {
+  const userId = memory.userId;
+  for (const entry of memory.emotionalStates || []) {
+    const state = await encryptString(userId, entry.state);
+    if (state !== entry.state) entry.state = state;
+  }
+  for (const entry of memory.lifeFacts || []) {
+    const fact = await encryptString(userId, entry.fact);
+    if (fact !== entry.fact) entry.fact = fact;
+  }
+  for (const [key, value] of mapEntries(memory.preferences)) {
+    const encrypted = await encryptString(userId, value);
+    if (encrypted !== value) memory.preferences.set(key, encrypted);
+  }
+};
+
+// Plain copy of a therapy memory with states, facts and preferences readable
+export const decryptTherapyMemory = async <T extends object>(memory: T): Promise<T> => {
+  const plain = toPlain(memory);
+  plain.emotionalStates = await Promise.all(
+    (plain.emotionalStates || []).map(async (entry: any) => ({
+      ...entry,
+      state: await decryptString(entry.state),
+    }))
+  );
+  plain.lifeFacts = await Promise.all(
+    (plain.lifeFacts || []).map(async (entry: any) => ({
+      ...entry,
+      fact: await decryptString(entry.fact),
+    }))
+  );
+  const preferences = await Promise.all(
+    mapEntries(plain.preferences).map(
+      async ([key, value]) => [key, await decryptString(value)] as [string, string]
+    )
+  );
+  plain.preferences =
+    plain.preferences instanceof Map ? new Map(preferences) : Object.fromEntries(preferences);
+  return plain;
+};
+
+export const encryptGoalFields = async (goal: any) => {
+  for (const entry of goal.progressNotes || []) {
+    const note = await encryptString(goal.userId, entry.note);
+    if (note !== entry.note) entry.note = note;
+  }
+};
+
+// Plain copy of a goal with its progress notes readable
+export const decryptGoal = async <T extends object>(goal: T): Promise<T> => {
+  const plain = toPlain(goal);
+  plain.progressNotes = await Promise.all(
+    (plain.progressNotes || []).map(async (entry: any) => ({
+      ...entry,
+      note: await decryptString(entry.note),
+    }))
+  );
+  return plain;
+};
@@ -0,0 +1,166 @@
+import { Types } from "mongoose";
+import { ITherapyMemory, TherapyMemory } from "../models/TherapyMemory";
+import { MessageAnalysis, TherapyAgentMemory } from "../types/inngest";
+import { generateStructured } from "../llm/structured";
+import { extractedMemorySchema } from "../llm/schemas";
+import { logger } from "./logger";
+import { decryptTherapyMemory } from "./secureFields";
+
+const MAX_EMOTIONAL_STATES = 50;
+const MAX_LIFE_FACTS = 50;
+const MAX_THEMES = 30;
+
+export const getOrCreateTherapyMemory = async (userId: Types.ObjectId | string) => {
+  const id = new Types.ObjectId(String(userId));
+  return TherapyMemory.findOneAndUpdate(
+    { userId: id },
+    { $setOnInsert: { userId: id } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  ).orFail();
+};
+
+// The user's memory with its encrypted fields readable, for prompts
+export const loadTherapyMemory = async (userId: Types.ObjectId | string) => {
+  const memory = await TherapyMemory.findOne({ userId: new Types.ObjectId(String(userId)) });
+  return memory && decryptTherapyMemory(memory);
+};
+
+// Shape the (decrypted) memory the way the agent prompts expect it
+export const toAgentMemory = (memory: ITherapyMemory | null): TherapyAgentMemory => ({
+  userProfile: {
+    emotionalState: (memory?.emotionalStates || []).slice(-10).map((e) => e.state),
+    riskLevel: memory?.emotionalStates.slice(-1)[0]?.riskLevel || 0,
+    preferences: Object.fromEntries(memory?.preferences || []),
+  },
+  sessionContext: {
+    conversationThemes: [...(memory?.recurringThemes || [])]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 10)
+      .map((t) => t.theme),
+    currentTechnique: null,
+  },
+});
+
+// Short plain-text description of what we remember, for response prompts.
+// Takes a decrypted copy (see loadTherapyMemory).
+export const describeTherapyMemory = (memory: ITherapyMemory | null) => {
+  if (!memory) return "";
+
+  const lines: string[] = [];
+  const themes = [...memory.recurringThemes]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 5)
+    .map((t) => t.theme);
+  if (themes.length) lines.push(`Recurring themes: ${themes.join(", ")}`);
+
+  const states = memory.emotionalStates.slice(-5).map((e) => e.state);
+  if (states.length) lines.push(`Recent emotional states: ${states.join(", ")}`);
+
+  const preferences = [...memory.preferences.entries()];
+  if (preferences.length) {
+    lines.push(`Preferences: ${preferences.map(([k, v]) => `${k}: ${v}`).join("; ")}`);
+  }
+
+  if (memory.lifeFacts.length) {
+    lines.push(
+      `Things the user has shared:\n${memory.lifeFacts
+        .slice(-15)
+        .map((f) => `- ${f.fact}`)
+        .join("\n")}`
+    );
+  }
+
+  return lines.join("\n");
+};
+
+// Takes a decrypted copy of the memory, like the describe helpers above
+const extractMemory = async (message: string, memory: ITherapyMemory) => {
+  const prompt = `You help a therapist remember important details between sessions.
+From the user's message below, extract:
+- "facts": durable facts about the user's life they shared (people, work, health, events), written in third person. Skip passing feelings.
+- "preferences": how the user wants to be supported (e.g. "style": "practical tips"), only if they stated it.
+
+Already known facts:
+${memory.lifeFacts.map((f) => `- ${f.fact}`).join("\n") || "(none)"}
+
+User message: ${message}
+
+Return ONLY a valid JSON object with no markdown formatting or additional text:
+{ "facts": ["string"], "preferences": { "key": "value" } }`;
+
+  return generateStructured(prompt, extractedMemorySchema, {
+    task: "memory",
+    userId: String(memory.userId),
+  });
+};
+
+/**
+ * Fold one exchange into the user's long-term memory: theme counts and
+ * emotional state from the analysis, plus any life facts or preferences
+ * the model can pull out of the message.
+ */
+export const recordExchange = async (input: {
+  userId: Types.ObjectId | string;
+  sessionId?: string;
+  message: string;
+  analysis: MessageAnalysis;
+}) => {
+  const memory = await getOrCreateTherapyMemory(input.userId);
+  const now = new Date();
+
+  for (const theme of input.analysis.themes || []) {
+    const existing = memory.recurringThemes.find((t) => t.theme === theme);
+    if (existing) {
+      existing.count += 1;
+      existing.lastSeen = now;
+    } else {
+      memory.recurringThemes.push({ theme, count: 1, lastSeen: now });
+    }
+  }
+  if (memory.recurringThemes.length > MAX_THEMES) {
+    memory.recurringThemes = [...memory.recurringThemes]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_THEMES);
+  }
+
+  if (input.analysis.emotionalState) {
+    memory.emotionalStates.push({
+      state: input.analysis.emotionalState,
+      riskLevel: input.analysis.riskLevel,
+      sessionId: input.sessionId,
+      timestamp: now,
+    });
+    memory.emotionalStates = memory.emotionalStates.slice(-MAX_EMOTIONAL_STATES);
+  }
+
+  try {
+    // New entries are pushed as plaintext and encrypted on save
+    const readable = await decryptTherapyMemory(memory);
+    const extracted = await extractMemory(input.message, readable);
+    const known = new Set(readable.lifeFacts.map((f) => f.fact.toLowerCase()));
+    for (const fact of extracted.facts) {
+      if (known.has(fact.toLowerCase())) continue;
+      known.add(fact.toLowerCase());
+      memory.lifeFacts.push({
+        fact: fact.substring(0, 500),
+        sessionId: input.sessionId,
+        createdAt: now,
+      });
+    }
+    memory.lifeFacts = memory.lifeFacts.slice(-MAX_LIFE_FACTS);
+
+    for (const [key, value] of Object.entries(extracted.preferences)) {
+      // Map keys can't contain "." or start with "$" in MongoDB
+      const safeKey = key.replace(/[.$]/g, "_").substring(0, 50);
+      if (safeKey && value.trim()) {
+        memory.preferences.set(safeKey, value.trim().substring(0, 200));
+      }
+    }
+  } catch (error) {
+    // Themes and emotional state are still worth saving without the facts
+    logger.warn("Memory extraction failed:", error);
+  }
+
+  await memory.save();
+  return memory;
+};
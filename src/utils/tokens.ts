@@ -0,0 +1,80 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { AuthToken, AuthTokenType } from "../models/AuthToken";
+
+export const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+
+// Access tokens are short-lived; refresh tokens keep the device signed in
+export const ACCESS_TOKEN_TTL_SECONDS =
+  Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 15 * 60;
+export const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+export interface AccessTokenPayload {
+  userId: string;
+  sessionId: string;
+}
+
+export const signAccessToken = (
+  userId: Types.ObjectId | string,
+  sessionId: Types.ObjectId | string
+) =>
+  jwt.sign(
+    { userId: String(userId), sessionId: String(sessionId) },
+    JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+
+export const verifyAccessToken = (token: string) =>
+  jwt.verify(token, JWT_SECRET) as AccessTokenPayload;
+
+// Opaque random token; only its hash is stored
+export const generateRefreshToken = () => crypto.randomBytes(48).toString("base64url");
+
+// Keyed with the server secret so a leaked hash can't be checked offline
+export const hashToken = (token: string) =>
+  crypto.createHmac("sha256", JWT_SECRET).update(token).digest("hex");
+
+export const refreshTokenExpiry = () => {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_TTL_DAYS);
+  return expiresAt;
+};
+
+export const ACTION_TOKEN_TTL_MINUTES: Record<AuthTokenType, number> = {
+  password_reset: Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60,
+  email_verification: Number(process.env.EMAIL_VERIFICATION_TTL_MINUTES) || 24 * 60,
+};
+
+// Issue a single-use token for an emailed action. Any earlier unused token
+// of the same type stops working.
+export const createActionToken = async (
+  userId: Types.ObjectId | string,
+  email: string,
+  type: AuthTokenType
+) => {
+  await AuthToken.deleteMany({ userId, type, usedAt: { $exists: false } });
+
+  const token = generateRefreshToken();
+  await AuthToken.create({
+    userId,
+    type,
+    email,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ACTION_TOKEN_TTL_MINUTES[type] * 60 * 1000),
+  });
+  return token;
+};
+
+// Mark a token used and return it, or null if it is unknown, used or expired
+export const consumeActionToken = (token: string, type: AuthTokenType) =>
+  AuthToken.findOneAndUpdate(
+    {
+      tokenHash: hashToken(token),
+      type,
+      usedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    },
+    { $set: { usedAt: new Date() } },
+    { new: true }
+  );
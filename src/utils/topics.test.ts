@@ -0,0 +1,40 @@
+import { setLLMProvider } from "../llm";
+import { StubProvider } from "../llm/stub";
+import { LLMCall } from "../models/LLMCall";
+import { reviewTopic } from "./topics";
+
+// Answers every prompt with the same text
+class ReplyProvider extends StubProvider {
+  constructor(private reply: string) {
+    super();
+  }
+
+  async generateText() {
+    return this.reply;
+  }
+}
+
+describe("reviewTopic", () => {
+  const messages = [{ role: "user", content: "Actually I can't sleep at all lately" }];
+
+  beforeEach(() => jest.spyOn(LLMCall, "create").mockResolvedValue([]));
+  afterEach(() => setLLMProvider(new StubProvider()));
+
+  it("returns the new title when the conversation has drifted", async () => {
+    setLLMProvider(new ReplyProvider('{"drifted": true, "topic": "😴 Sleep Struggles"}'));
+
+    expect(await reviewTopic("💼 Work Stress", messages)).toBe("😴 Sleep Struggles");
+  });
+
+  it("keeps the topic when it still fits", async () => {
+    setLLMProvider(new ReplyProvider('{"drifted": false}'));
+
+    expect(await reviewTopic("💼 Work Stress", messages)).toBeUndefined();
+  });
+
+  it("keeps the topic when the model's answer is unusable", async () => {
+    setLLMProvider(new ReplyProvider("I think the topic is fine."));
+
+    expect(await reviewTopic("💼 Work Stress", messages)).toBeUndefined();
+  });
+});
@@ -0,0 +1,156 @@
+import { IChatSession } from "../models/chat";
+import { LLMCallOutcome, getLLMProvider } from "../llm";
+import { StructuredOutputError, generateStructured } from "../llm/structured";
+import { topicReviewSchema } from "../llm/schemas";
+import { logger } from "./logger";
+
+// Auto-titling kicks in after this many user messages, then the topic is
+// re-checked for drift every TOPIC_REVIEW_INTERVAL messages
+const TOPIC_MIN_USER_MESSAGES = Number(process.env.TOPIC_MIN_USER_MESSAGES) || 2;
+const TOPIC_REVIEW_INTERVAL = Number(process.env.TOPIC_REVIEW_INTERVAL) || 10;
+const MAX_TOPIC_LENGTH = 50;
+
+export interface TopicMessage {
+  role: string;
+  content: string;
+}
+
+export const buildTopicPrompt = (messages: TopicMessage[]) => `Based on the following therapy conversation, generate a short, empathetic topic title (maximum 4 words) that captures the main theme or concern being discussed.
+
+Conversation:
+${messages
+  .map(
+    (msg) =>
+      `${msg.role}: ${msg.content.substring(0, 200)}${
+        msg.content.length > 200 ? "..." : ""
+      }`
+  )
+  .join("\n")}
+
+Guidelines:
+- Keep it concise (3-4 words maximum)
+- Use empathetic language
+- Focus on the main emotional theme or concern
+- Suitable for a therapy context
+- Add appropriate emoji if helpful (optional)
+
+Examples of good topics:
+- "💭 Anxiety Management"
+- "😴 Sleep Struggles" 
+- "💼 Work Stress"
+- "💕 Relationship Issues"
+- "🌟 Building Confidence"
+
+Generate only the topic title, nothing else:`;
+
+// Remove quotes and reject answers that are clearly not a short title
+export const cleanTopic = (raw: string) => {
+  const topic = raw.replace(/['"]/g, "").trim();
+  return topic && topic.length <= MAX_TOPIC_LENGTH ? topic : undefined;
+};
+
+// A reply that isn't a usable title is replaced by the keyword fallback
+export const topicOutcome = (text: string): LLMCallOutcome =>
+  cleanTopic(text) ? "success" : "fallback";
+
+// Whether a session is due for a new or re-checked auto-generated topic
+export const shouldRefreshTopic = (session: IChatSession) => {
+  if (session.topicSource === "user") return false;
+  if (!session.topic) {
+    const userMessages = session.messages.filter((msg) => msg.role === "user").length;
+    return userMessages >= TOPIC_MIN_USER_MESSAGES;
+  }
+  return session.messages.length - (session.topicMessageCount || 0) >= TOPIC_REVIEW_INTERVAL;
+};
+
+/**
+ * Ask the model whether the current topic still describes the
+ * conversation. Returns a replacement title, or undefined to keep it -
+ * also when the model's answer is unusable.
+ */
+export const reviewTopic = async (topic: string, messages: TopicMessage[], userId?: string) => {
+  const prompt = `A therapy conversation is currently titled "${topic}".
+
+Recent conversation:
+${messages
+  .map((msg) => `${msg.role}: ${msg.content.substring(0, 200)}${msg.content.length > 200 ? "..." : ""}`)
+  .join("\n")}
+
+Has the conversation moved on to a different main concern than the title describes? Minor tangents do not count.
+Return ONLY a valid JSON object with no markdown formatting or additional text:
+{ "drifted": boolean, "topic": "new title of at most 4 words, with an optional leading emoji, if drifted" }`;
+
+  let result;
+  try {
+    result = await generateStructured(prompt, topicReviewSchema, {
+      task: "topic-review",
+      userId,
+    });
+  } catch (error) {
+    if (!(error instanceof StructuredOutputError)) throw error;
+    logger.warn("Topic review output unusable, keeping the topic:", error.problems);
+    return undefined;
+  }
+  if (!result.drifted || !result.topic) return undefined;
+  const next = cleanTopic(result.topic);
+  return next && next !== topic ? next : undefined;
+};
+
+export const generateTopicTitle = async (messages: TopicMessage[], userId?: string) => {
+  try {
+    const topic = cleanTopic(
+      await getLLMProvider().generateText(buildTopicPrompt(messages), {
+        task: "topic",
+        userId,
+        checkOutput: topicOutcome,
+      })
+    );
+    if (topic) return topic;
+  } catch {
+    // fall through to keyword matching
+  }
+  return generateFallbackTopic(messages);
+};
+
+// Helper function for fallback topic generation
+export const generateFallbackTopic = (messages: TopicMessage[]): string => {
+  if (!messages || messages.length === 0) return "💬 New Chat"; // Find first user message
+  const userMessages = messages.filter((msg) => msg.role === "user");
+  if (!userMessages.length) return "💬 New Chat";
+  const firstMessage = userMessages[0].content.toLowerCase(); // Simple keyword matching for therapy topics
+  const topicMap: Record<string, string> = {
+    anxiety: "💭 Anxiety Support",
+    anxious: "💭 Anxiety Support",
+    worried: "💭 Anxiety Support",
+    stress: "😰 Stress Management",
+    stressed: "😰 Stress Management",
+    overwhelmed: "🌊 Feeling Overwhelmed",
+    sleep: "😴 Sleep Issues",
+    insomnia: "😴 Sleep Problems",
+    tired: "😴 Sleep & Energy",
+    depression: "🌧️ Depression Support",
+    depressed: "🌧️ Depression Support",
+    sad: "😢 Emotional Support",
+    work: "💼 Work Issues",
+    job: "💼 Work Stress",
+    relationship: "💕 Relationship Help",
+    partner: "💕 Relationship Issues",
+    family: "👨‍👩‍👧‍👦 Family Matters",
+    panic: "⚡ Panic Support",
+    anger: "😡 Anger Management",
+    angry: "😡 Anger Management",
+    lonely: "🤗 Loneliness Support",
+    confidence: "💪 Building Confidence",
+    "self-esteem": "💪 Self-Worth",
+    grief: "💙 Grief Support",
+    loss: "💙 Coping with Loss",
+  }; // Check for keywords
+  for (const [keyword, topic] of Object.entries(topicMap)) {
+    if (firstMessage.includes(keyword)) {
+      return topic;
+    }
+  } // Generate from first few words
+  const words = firstMessage.split(" ").slice(0, 3).join(" ");
+  const capitalizedWords = words.charAt(0).toUpperCase() + words.slice(1);
+  return `💬 ${capitalizedWords}`;
+};
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { dateRangeQuery, objectId, pageQuery, timezone, trimmed } from "./common";
+
+// Whether the type exists for this user is checked in the controller
+const activityType = z.string().trim().toLowerCase().min(1, "Required").max(50);
+
+const activityFields = {
+  type: activityType,
+  name: trimmed(200),
+  description: z.string().trim().max(2000).optional(),
+  duration: z.number().min(0).max(24 * 60).optional(),
+  difficulty: z.number().int().min(1).max(5).optional(),
+  feedback: z.string().trim().max(2000).optional(),
+};
+
+export const logActivitySchema = {
+  body: z.object(activityFields),
+};
+
+export const updateActivitySchema = {
+  params: z.object({ id: objectId }),
+  body: z.object({
+    ...activityFields,
+    timestamp: z.coerce.date(),
+  }).partial(),
+};
+
+export const listActivitiesSchema = {
+  query: pageQuery.merge(dateRangeQuery).extend({
+    type: activityType.optional(),
+  }),
+};
+
+export const activityStatsSchema = {
+  query: dateRangeQuery.extend({
+    period: z.enum(["day", "week"]).default("day"),
+    tz: timezone.default("UTC"),
+  }),
+};
+
+export const createActivityTypeSchema = {
+  body: z.object({
+    label: trimmed(100),
+    name: z.string().trim().max(50).optional(),
+    description: z.string().trim().max(500).optional(),
+  }),
+};
+
+export const recommendationsQuerySchema = {
+  query: z.object({
+    status: z.enum(["pending", "accepted", "dismissed", "superseded", "all"]).default("pending"),
+  }),
+};
+
+export const dismissRecommendationSchema = {
+  params: z.object({ id: objectId }),
+  body: z.object({ reason: z.string().trim().max(500).optional() }),
+};
+
+export type LogActivityBody = z.infer<typeof logActivitySchema.body>;
+export type UpdateActivityBody = z.infer<typeof updateActivitySchema.body>;
+export type CreateActivityTypeBody = z.infer<typeof createActivityTypeSchema.body>;
+export type ListActivitiesQuery = z.infer<typeof listActivitiesSchema.query>;
+export type ActivityStatsQuery = z.infer<typeof activityStatsSchema.query>;
+export type RecommendationsQuery = z.infer<typeof recommendationsQuerySchema.query>;
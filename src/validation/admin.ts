@@ -0,0 +1,14 @@
+import { z } from "zod";
+import { USAGE_REPORT_GROUPS } from "../utils/llmAccounting";
+import { csvOf, dateRangeQuery, objectId } from "./common";
+
+export const llmUsageReportSchema = {
+  query: dateRangeQuery.extend({
+    groupBy: csvOf(USAGE_REPORT_GROUPS).optional(),
+    userId: objectId.optional(),
+    task: z.string().trim().max(50).optional(),
+    model: z.string().trim().max(100).optional(),
+  }),
+};
+
+export type LLMUsageReportQuery = z.infer<typeof llmUsageReportSchema.query>;
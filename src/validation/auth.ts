@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { RESPONSE_LENGTHS, THERAPEUTIC_STYLES } from "../models/User";
+import { timezone, trimmed } from "./common";
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const email = z.string().trim().max(254).email("Must be a valid email");
+
+// bcrypt only looks at the first 72 bytes
+export const password = z
+  .string()
+  .min(MIN_PASSWORD_LENGTH, `Must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  .max(72, "Must be at most 72 characters")
+  .regex(/[A-Za-z]/, "Must contain a letter")
+  .regex(/[0-9]/, "Must contain a number");
+
+const token = z.string().trim().min(1, "Required");
+
+export const registerSchema = {
+  body: z.object({
+    name: trimmed(100),
+    email,
+    password,
+  }),
+};
+
+export const loginSchema = {
+  body: z.object({
+    email: z.string().trim().min(1, "Required"),
+    password: z.string().min(1, "Required"),
+  }),
+};
+
+export const refreshSchema = {
+  body: z.object({ refreshToken: token }),
+};
+
+export const forgotPasswordSchema = {
+  body: z.object({ email }),
+};
+
+export const resetPasswordSchema = {
+  body: z.object({ token, password }),
+};
+
+export const verifyEmailSchema = {
+  body: z.object({ token }),
+};
+
+export const revokeAllSessionsSchema = {
+  query: z.object({ keepCurrent: z.enum(["true", "false"]).optional() }),
+};
+
+export const updateProfileSchema = {
+  body: z.object({
+    name: trimmed(100).optional(),
+    email: email.optional(),
+    password: password.optional(),
+    currentPassword: z.string().optional(),
+  }),
+};
+
+export const updatePreferencesSchema = {
+  body: z.object({
+    timezone: timezone.optional(),
+    therapeuticStyle: z.enum(THERAPEUTIC_STYLES).optional(),
+    responseLength: z.enum(RESPONSE_LENGTHS).optional(),
+    language: z
+      .string()
+      .regex(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, 'Must be a BCP 47 tag like "en"')
+      .nullable()
+      .optional(),
+    reminders: z
+      .object({
+        enabled: z.boolean().optional(),
+        time: z
+          .string()
+          .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Must be HH:mm")
+          .optional(),
+        days: z.array(z.number().int().min(0).max(6)).optional(),
+      })
+      .optional(),
+  }),
+};
+
+export const exportDataSchema = {
+  query: z.object({ format: z.enum(["json", "zip"]).optional() }),
+};
+
+export const deleteAccountSchema = {
+  body: z.object({ password: z.string().min(1, "Required") }),
+};
+
+export type RegisterBody = z.infer<typeof registerSchema.body>;
+export type LoginBody = z.infer<typeof loginSchema.body>;
+export type ResetPasswordBody = z.infer<typeof resetPasswordSchema.body>;
+export type UpdateProfileBody = z.infer<typeof updateProfileSchema.body>;
+export type UpdatePreferencesBody = z.infer<typeof updatePreferencesSchema.body>;
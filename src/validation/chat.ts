@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { CHAT_SESSION_STATUSES } from "../models/chat";
+import { csvOf, cursorParam, dateRangeQuery, limitParam, objectId, trimmed } from "./common";
+
+export const MAX_MESSAGE_LENGTH = 4000;
+
+
+export const sessionParams = z.object({ sessionId: z.string().uuid("Must be a valid session id") });
+
+export const messageParams = sessionParams.extend({ messageId: objectId });
+
+export const sendMessageSchema = {
+  params: sessionParams,
+  body: z.object({ message: trimmed(MAX_MESSAGE_LENGTH) }),
+};
+
+export const chatHistorySchema = {
+  params: sessionParams,
+  query: z.object({
+    limit: limitParam(50, 200),
+    cursor: cursorParam.optional(),
+  }),
+};
+
+export const listSessionsSchema = {
+  query: dateRangeQuery.extend({
+    limit: limitParam(20, 100),
+    cursor: cursorParam.optional(),
+    status: csvOf(CHAT_SESSION_STATUSES).optional(),
+  }),
+};
+
+export const searchChatSchema = {
+  query: dateRangeQuery.extend({
+    q: z.string().trim().min(2, "Must be at least 2 characters").max(200),
+    role: csvOf(["user", "assistant"]).optional(),
+    theme: z.string().trim().max(50).optional(),
+    limit: limitParam(20, 50),
+  }),
+};
+
+export const generateTopicSchema = {
+  body: z.object({
+    messages: z
+      .array(
+        z.object({
+          role: z.string(),
+          content: z.string().max(MAX_MESSAGE_LENGTH),
+        })
+      )
+      .min(1, "Must contain at least one message")
+      .max(50),
+  }),
+};
+
+export const updateTopicSchema = {
+  params: sessionParams,
+  body: z.object({ topic: trimmed(100) }),
+};
+
+export type ChatHistoryQuery = z.infer<typeof chatHistorySchema.query>;
+export type ListSessionsQuery = z.infer<typeof listSessionsSchema.query>;
+export type SearchChatQuery = z.infer<typeof searchChatSchema.query>;
@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { Types } from "mongoose";
+import { isValidTimezone } from "../utils/preferences";
+
+// Building blocks shared by the per-route schemas
+
+export const trimmed = (max: number) => z.string().trim().min(1, "Required").max(max);
+
+export const objectId = z
+  .string()
+  .refine((value) => Types.ObjectId.isValid(value), "Must be a valid id");
+
+export const idParams = z.object({ id: objectId });
+
+// Query-string dates come out as Dates (see dateRangeFilter for queries)
+export const dateString = z
+  .string()
+  .refine((value) => !isNaN(new Date(value).getTime()), "Must be a valid date")
+  .transform((value) => new Date(value));
+
+export const timezone = z.string().refine(isValidTimezone, "Must be an IANA timezone");
+
+export const dateRangeQuery = z.object({
+  from: dateString.optional(),
+  to: dateString.optional(),
+});
+
+// ?limit with a per-route default and maximum
+export const limitParam = (fallback: number, max: number) =>
+  z.coerce.number().int().min(1).max(max).default(fallback);
+
+export const pageQuery = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: limitParam(20, 100),
+});
+
+// Comma-separated list of allowed values, e.g. ?status=active,paused,
+// parsed into an array without duplicates
+export const csvOf = <T extends string>(values: readonly T[]) =>
+  z
+    .string()
+    .refine(
+      (raw) => raw.split(",").every((value) => (values as readonly string[]).includes(value.trim())),
+      `Must be a comma-separated list of: ${values.join(", ")}`
+    )
+    .transform((raw) => [...new Set(raw.split(",").map((value) => value.trim() as T))]);
+
+// Cursors are opaque to clients: base64url-encoded JSON (see encodeCursor).
+// Routes check the decoded fields they expect.
+export const cursorParam = z.string().transform((raw, ctx) => {
+  try {
+    const value = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (value && typeof value === "object") return value as Record<string, unknown>;
+  } catch {
+    // reported below
+  }
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must be a cursor from a previous page" });
+  return z.NEVER;
+});
@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { csvOf, trimmed } from "./common";
+
+const GOAL_STATUSES = ["proposed", "active", "completed", "abandoned", "declined"] as const;
+
+const goalFields = {
+  title: trimmed(200),
+  description: z.string().trim().max(2000).optional(),
+  targetDate: z.coerce.date().optional(),
+};
+
+export const listGoalsSchema = {
+  query: z.object({ status: csvOf(GOAL_STATUSES).optional() }),
+};
+
+export const createGoalSchema = {
+  body: z.object(goalFields),
+};
+
+export const updateGoalSchema = {
+  body: z
+    .object({ ...goalFields, status: z.enum(GOAL_STATUSES) })
+    .partial(),
+};
+
+export const progressNoteSchema = {
+  body: z.object({ note: trimmed(500) }),
+};
+
+export type ListGoalsQuery = z.infer<typeof listGoalsSchema.query>;
+export type CreateGoalBody = z.infer<typeof createGoalSchema.body>;
+export type UpdateGoalBody = z.infer<typeof updateGoalSchema.body>;
@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { objectId, trimmed } from "./common";
+
+export const updateMemoryPreferencesSchema = {
+  body: z.object({
+    // A null value removes the preference; map keys can't contain "." or "$"
+    preferences: z.record(
+      z.string().regex(/^[^.$]{1,50}$/, "Invalid preference name"),
+      z.string().trim().max(200).nullable()
+    ),
+  }),
+};
+
+export const memoryFactSchema = {
+  body: z.object({ fact: trimmed(500) }),
+};
+
+export const memoryFactParams = z.object({ factId: objectId });
+
+export const memoryThemeParams = z.object({ theme: trimmed(50) });
+
+export type UpdateMemoryPreferencesBody = z.infer<typeof updateMemoryPreferencesSchema.body>;
@@ -0,0 +1,35 @@
+import { z } from "zod";
+import { dateRangeQuery, pageQuery, timezone } from "./common";
+
+const tzQuery = z.object({ tz: timezone.default("UTC") });
+
+export const createMoodSchema = {
+  body: z.object({
+    score: z.number().int().min(0).max(100),
+    note: z.string().trim().max(1000).optional(),
+  }),
+};
+
+export const moodHistorySchema = {
+  query: pageQuery.merge(dateRangeQuery),
+};
+
+export const moodStatsSchema = {
+  query: dateRangeQuery.merge(tzQuery).extend({
+    period: z.enum(["day", "week"]).default("day"),
+  }),
+};
+
+export const moodStreaksSchema = {
+  query: tzQuery,
+};
+
+export const moodCorrelationsSchema = {
+  query: dateRangeQuery.merge(tzQuery),
+};
+
+export type CreateMoodBody = z.infer<typeof createMoodSchema.body>;
+export type MoodHistoryQuery = z.infer<typeof moodHistorySchema.query>;
+export type MoodStatsQuery = z.infer<typeof moodStatsSchema.query>;
+export type MoodStreaksQuery = z.infer<typeof moodStreaksSchema.query>;
+export type MoodCorrelationsQuery = z.infer<typeof moodCorrelationsSchema.query>;